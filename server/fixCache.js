@@ -0,0 +1,138 @@
+/**
+ * Persistent cache of generated fixes
+ *
+ * Keyed by a normalized error fingerprint plus hashes of the file and related
+ * file contents, so a fix is only reused for exactly the code it was made for.
+ * Stored as one JSON file, rewritten at most once per PERSIST_DELAY_MS;
+ * hit/miss counters cover the current process.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { createHash } from 'crypto';
+
+const DEFAULT_MAX_ENTRIES = 500;
+// Changes within this window, including hit counts, go out in one write
+const PERSIST_DELAY_MS = 1000;
+
+function sha256(text) {
+    return createHash('sha256').update(text).digest('hex');
+}
+
+/**
+ * Error text with the parts that vary between runs of the same project removed:
+ * ANSI codes, line/column numbers, container paths, Vite's ?v= / ?t= query hashes, timestamps
+ */
+export function errorFingerprint(error) {
+    return error
+        .replace(/\u001b\[[0-9;]*[A-Za-z]/g, '')
+        .replace(/\/home\/[^/\s]+\//g, '/')
+        .replace(/https?:\/\/[^/\s]+\//g, '/')
+        .replace(/[?&][vt]=[0-9a-f]+/gi, '')
+        .replace(/\d{1,2}:\d{2}:\d{2}( [AP]M)?/g, '')
+        .replace(/:\d+(:\d+)?/g, '')
+        .replace(/\(\d+:\d+\)/g, '')
+        .replace(/\s+/g, ' ')
+        .trim();
+}
+
+/**
+ * Cache key for a prepared fix request
+ */
+export function fixCacheKey({ error, filePath, fileContent, relatedFiles, isMultiFile }) {
+    const related = relatedFiles
+        .map(f => `${f.path}\n${sha256(f.content)}`)
+        .sort()
+        .join('\n');
+    return sha256([
+        errorFingerprint(error),
+        filePath,
+        sha256(fileContent),
+        related,
+        isMultiFile ? 'multi' : 'single',
+    ].join('\n\0'));
+}
+
+export function createFixCache({ file, maxEntries = DEFAULT_MAX_ENTRIES }) {
+    const entries = new Map();
+    const counters = { hits: 0, misses: 0, stores: 0, invalidations: 0 };
+
+    if (fs.existsSync(file)) {
+        try {
+            for (const entry of JSON.parse(fs.readFileSync(file, 'utf8'))) {
+                entries.set(entry.key, entry);
+            }
+        } catch (err) {
+            console.warn(`Ignoring unreadable fix cache ${file}: ${err.message}`);
+        }
+    }
+
+    let persistTimer = null;
+    let writing = Promise.resolve();
+
+    // Write to a temp file first so a crash mid-write never leaves a truncated cache
+    async function write() {
+        await fs.promises.mkdir(path.dirname(file), { recursive: true });
+        const tmp = `${file}.tmp`;
+        await fs.promises.writeFile(tmp, JSON.stringify([...entries.values()]));
+        await fs.promises.rename(tmp, file);
+    }
+
+    // Batch changes into one write; writes are chained so an older snapshot never lands last
+    function persist() {
+        if (persistTimer) return;
+        persistTimer = setTimeout(() => {
+            persistTimer = null;
+            writing = writing
+                .then(write)
+                .catch(err => console.warn(`Could not write fix cache ${file}: ${err.message}`));
+        }, PERSIST_DELAY_MS);
+    }
+
+    return {
+        get(key) {
+            const entry = entries.get(key);
+            if (!entry) {
+                counters.misses++;
+                return null;
+            }
+            counters.hits++;
+            entry.hits++;
+            entry.lastUsedAt = Date.now();
+            persist();
+            return entry;
+        },
+
+        set(key, { filePath, fingerprint, patches }) {
+            const now = Date.now();
+            entries.set(key, { key, filePath, fingerprint, patches, createdAt: now, lastUsedAt: now, hits: 0 });
+            counters.stores++;
+
+            // Drop the least recently used entries past the limit
+            if (entries.size > maxEntries) {
+                const oldest = [...entries.values()]
+                    .sort((a, b) => a.lastUsedAt - b.lastUsedAt)
+                    .slice(0, entries.size - maxEntries);
+                for (const entry of oldest) entries.delete(entry.key);
+            }
+            persist();
+        },
+
+        // Returns whether the key was cached
+        invalidate(key) {
+            if (!entries.delete(key)) return false;
+            counters.invalidations++;
+            persist();
+            return true;
+        },
+
+        stats() {
+            const lookups = counters.hits + counters.misses;
+            return {
+                ...counters,
+                entries: entries.size,
+                hitRate: lookups > 0 ? Math.round((counters.hits / lookups) * 100) / 100 : null,
+            };
+        },
+    };
+}
@@ -1,12 +1,16 @@
 /**
  * Preview Testing Server
- * Node.js backend with Gemini LLM for error fixing
+ * Node.js backend with a pluggable LLM provider for error fixing
  */
 
+import path from 'path';
+import { fileURLToPath } from 'url';
 import express from 'express';
 import cors from 'cors';
 import dotenv from 'dotenv';
-import { GoogleGenerativeAI } from '@google/generative-ai';
+import { createProvider } from './providers/index.js';
+import { stripCodeFences, parseJSONResponse } from './providers/shared.js';
+import { createFixCache, fixCacheKey, errorFingerprint } from './fixCache.js';
 
 dotenv.config();
 
@@ -20,12 +24,24 @@ let requestId = 0;
 app.use(cors());
 app.use(express.json({ limit: '10mb' }));
 
-// Initialize Gemini
-const genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY || '');
-const model = genAI.getGenerativeModel({
-    model: 'gemini-2.5-flash-lite-preview-09-2025',
+// Initialize the LLM provider (LLM_PROVIDER=gemini|openai|mock)
+const llm = createProvider();
+
+// Fixes already generated for the same error and code (FIX_CACHE_FILE overrides the location)
+const fixCache = createFixCache({
+    file: process.env.FIX_CACHE_FILE
+        ? path.resolve(process.env.FIX_CACHE_FILE)
+        : path.join(path.dirname(fileURLToPath(import.meta.url)), '.cache', 'fix-cache.json'),
 });
 
+// Max related files (imports / importers) included in a fix prompt
+const MAX_RELATED_FILES = 8;
+const MAX_RELATED_FILE_CHARS = 20000;
+
+// Earlier failed fixes for the same error included in a retry prompt
+const MAX_PREVIOUS_ATTEMPTS = 3;
+const MAX_ATTEMPT_FILE_CHARS = 8000;
+
 // Logger utility
 function log(id, type, message, data = null) {
     const timestamp = new Date().toISOString();
@@ -51,36 +67,184 @@ function log(id, type, message, data = null) {
 }
 
 /**
- * POST /api/fix-error
- * Receives error details and code, returns fixed code using Gemini
+ * Render the failing file's imports and importers as prompt context
  */
-app.post('/api/fix-error', async (req, res) => {
-    const id = ++requestId;
-    const startTime = Date.now();
+function buildRelatedFilesSection(relatedFiles) {
+    if (relatedFiles.length === 0) return '';
 
-    try {
-        const { error, filePath, fileContent } = req.body;
+    const sections = relatedFiles.map(f => {
+        const label = f.relation === 'importedBy' ? 'imports the failing file' : 'imported by the failing file';
+        return `### ${f.path} (${label})\n\`\`\`tsx\n${f.content}\n\`\`\``;
+    });
 
-        log(id, 'START', `=== FIX ERROR REQUEST ===`);
-        log(id, 'INFO', `File: ${filePath}`);
-        log(id, 'INFO', `File size: ${fileContent?.length || 0} chars`);
-        log(id, 'INFO', `Error message:`, error?.slice(0, 300));
+    return `\n## Related Files:\n${sections.join('\n\n')}\n`;
+}
 
-        if (!error || !filePath || !fileContent) {
-            log(id, 'ERROR', 'Missing required fields');
-            return res.status(400).json({
-                error: 'Missing required fields: error, filePath, fileContent'
-            });
+/**
+ * Where the error points in the original source, when the client could resolve it
+ * (build diagnostics, or runtime stacks mapped through source maps)
+ */
+function buildLocationSection(location, filePath) {
+    if (!location || typeof location.line !== 'number') return '';
+
+    const column = typeof location.column === 'number' ? `, column ${location.column}` : '';
+    const excerpt = typeof location.excerpt === 'string' && location.excerpt
+        ? `\n\`\`\`tsx\n${location.excerpt}\n\`\`\``
+        : '';
+    return `\n## Error Location:\n${filePath} line ${location.line}${column}${excerpt}\n`;
+}
+
+/**
+ * Fixes already tried for this error and why each was rolled back
+ */
+function buildPreviousAttemptsSection(previousAttempts, firstNumber) {
+    if (previousAttempts.length === 0) return '';
+
+    const sections = previousAttempts.map((attempt, i) => {
+        const files = attempt.patches.map(p => {
+            const code = p.fixedCode.length > MAX_ATTEMPT_FILE_CHARS
+                ? p.fixedCode.slice(0, MAX_ATTEMPT_FILE_CHARS) + '\n// ... (truncated)'
+                : p.fixedCode;
+            return `${p.filePath}:\n\`\`\`tsx\n${code}\n\`\`\``;
+        });
+        return `### Attempt ${firstNumber + i}\n${files.join('\n\n')}\n\nResult:\n${attempt.result}`;
+    });
+
+    return `\n## Previous Failed Attempts (these changes were applied and rolled back - do NOT repeat them):\n${sections.join('\n\n')}\n`;
+}
+
+/**
+ * How to approach this attempt; each retry of the same error widens the strategy
+ */
+function buildStrategySection(attemptNumber) {
+    if (attemptNumber <= 1) return '';
+
+    if (attemptNumber === 2) {
+        return `\n## Strategy (attempt ${attemptNumber}):
+The previous fix did not work. Look beyond the reported line: the root cause may be in the related files,
+an import/export mismatch, the props passed in, or the shape of the data being used.\n`;
+    }
+
+    if (attemptNumber === 3) {
+        return `\n## Strategy (attempt ${attemptNumber}):
+Earlier fixes failed. Take a clearly different approach from every previous attempt - do not tweak them.
+Prefer rewriting the failing logic in a simpler way over patching around it.\n`;
+    }
+
+    return `\n## Strategy (attempt ${attemptNumber}, last resort):
+All earlier fixes failed. Replace the failing component or function with a minimal stub so the rest of the app runs:
+keep its name, exports and props/signature, render a simple placeholder (or return a safe default),
+and add a \`// TODO: restore\` comment explaining what was stubbed out.\n`;
+}
+
+/**
+ * Output instructions: plain code for one file, JSON patches when several files may change
+ */
+function buildOutputInstructions(isMultiFile, startIndex) {
+    if (!isMultiFile) {
+        return `${startIndex}. Return ONLY the complete fixed code
+${startIndex + 1}. Do NOT include markdown code fences or explanations
+${startIndex + 2}. The response should be valid TypeScript/React code that can be saved directly to a file
+
+## Fixed Code:`;
+    }
+
+    return `${startIndex}. The error may be caused by another file (e.g. a missing or mismatched export) - fix whichever files need it
+${startIndex + 1}. Only modify files shown above, using their paths exactly as given
+${startIndex + 2}. Return ONLY a JSON object, no markdown fences or explanations, in this format:
+{ "files": [ { "path": "path/to/file.tsx", "content": "complete new file content" } ] }
+${startIndex + 3}. Include only files that change, each with its COMPLETE new content
+
+## JSON Response:`;
+}
+
+/**
+ * Patches for a multi-file response that is not valid JSON. Models sometimes ignore the format
+ * and return the fixed file as plain code, which is used as a single-file fix; broken or
+ * truncated JSON can't be recovered and fails with a 502.
+ */
+function fallbackFixPatches(text, filePath) {
+    const content = stripCodeFences(text.trim());
+    if (!content || /^[{[]/.test(content)) {
+        const error = new Error(`${llm.name} returned malformed JSON for a multi-file fix`);
+        error.status = 502;
+        throw error;
+    }
+    return [{ path: filePath, content }];
+}
+
+/**
+ * Normalize a provider response into { path, content } patches
+ */
+function toFixPatches(response, filePath, allowedPaths, isMultiFile) {
+    if (!isMultiFile) {
+        return [{ path: filePath, content: stripCodeFences(response.trim()) }];
+    }
+
+    let parsed = response;
+    if (typeof response === 'string') {
+        try {
+            parsed = parseJSONResponse(response);
+        } catch {
+            return fallbackFixPatches(response, filePath);
         }
+    }
+    const files = Array.isArray(parsed?.files) ? parsed.files : [];
+    return files.filter(f =>
+        typeof f?.path === 'string' &&
+        typeof f?.content === 'string' &&
+        allowedPaths.has(f.path)
+    );
+}
 
-        // Detect if this is a runtime error
-        const isRuntimeError = error.includes('Runtime Error') ||
-            error.includes('RUNTIME_ERROR') ||
-            error.includes('error boundary') ||
-            error.includes('The above error occurred');
+/**
+ * Ask the provider for a fix and normalize it into { path, content } patches
+ */
+async function generateFixPatches(prompt, filePath, allowedPaths, isMultiFile) {
+    if (!isMultiFile) {
+        return toFixPatches(await llm.generateText(prompt), filePath, allowedPaths, false);
+    }
 
-        const prompt = isRuntimeError
-            ? `You are an expert React/TypeScript developer. Fix the following RUNTIME ERROR in this code.
+    try {
+        return toFixPatches(await llm.generateJSON(prompt), filePath, allowedPaths, true);
+    } catch (err) {
+        if (typeof err.responseText !== 'string') throw err;
+        return fallbackFixPatches(err.responseText, filePath);
+    }
+}
+
+/**
+ * Validate a fix request body and build its prompt. Returns null when required fields are missing.
+ * With relatedFiles, the fix may span several files and comes back as patches.
+ */
+function prepareFixRequest(body) {
+    const { error, filePath, fileContent, location } = body;
+    const relatedFiles = (Array.isArray(body.relatedFiles) ? body.relatedFiles : [])
+        .filter(f => typeof f?.path === 'string' && typeof f?.content === 'string')
+        .filter(f => f.content.length <= MAX_RELATED_FILE_CHARS)
+        .slice(0, MAX_RELATED_FILES);
+    const isMultiFile = relatedFiles.length > 0;
+    const previousAttempts = (Array.isArray(body.previousAttempts) ? body.previousAttempts : [])
+        .filter(a => Array.isArray(a?.patches) && typeof a?.result === 'string')
+        .map(a => ({
+            patches: a.patches.filter(p => typeof p?.filePath === 'string' && typeof p?.fixedCode === 'string'),
+            result: a.result,
+        }))
+        .slice(-MAX_PREVIOUS_ATTEMPTS);
+    const attemptNumber = (Array.isArray(body.previousAttempts) ? body.previousAttempts.length : 0) + 1;
+
+    if (!error || !filePath || !fileContent) return null;
+
+    // Detect if this is a runtime error
+    const isRuntimeError = error.includes('Runtime Error') ||
+        error.includes('RUNTIME_ERROR') ||
+        error.includes('error boundary') ||
+        error.includes('The above error occurred');
+
+    const context = `${buildLocationSection(location, filePath)}${buildRelatedFilesSection(relatedFiles)}${buildPreviousAttemptsSection(previousAttempts, attemptNumber - previousAttempts.length)}${buildStrategySection(attemptNumber)}`;
+
+    const prompt = isRuntimeError
+        ? `You are an expert React/TypeScript developer. Fix the following RUNTIME ERROR in this code.
 
 ## Runtime Error Details:
 \`\`\`
@@ -91,7 +255,7 @@ ${error}
 \`\`\`tsx
 ${fileContent}
 \`\`\`
-
+${context}
 ## Instructions for Runtime Errors:
 1. This is a RUNTIME error that occurred in the browser, not a build error
 2. Common runtime errors include:
@@ -108,12 +272,8 @@ ${fileContent}
 4. Fix the code to prevent the runtime error
 5. Add defensive programming (null checks, optional chaining, fallbacks)
 6. Keep all existing functionality
-7. Return ONLY the complete fixed code
-8. Do NOT include markdown code fences or explanations
-9. The response should be valid TypeScript/React code
-
-## Fixed Code:`
-            : `You are an expert React/TypeScript developer. Fix the following error in this code.
+${buildOutputInstructions(isMultiFile, 7)}`
+        : `You are an expert React/TypeScript developer. Fix the following error in this code.
 
 ## Error Message:
 \`\`\`
@@ -124,60 +284,233 @@ ${error}
 \`\`\`tsx
 ${fileContent}
 \`\`\`
-
+${context}
 ## Instructions:
 1. Analyze the error carefully
 2. Fix the code to resolve the error
 3. Keep all existing functionality
-4. Return ONLY the complete fixed code
-5. Do NOT include markdown code fences or explanations
-6. The response should be valid TypeScript/React code that can be saved directly to a file
+${buildOutputInstructions(isMultiFile, 4)}`;
+
+    return {
+        error,
+        filePath,
+        fileContent,
+        location,
+        relatedFiles,
+        previousAttempts,
+        attemptNumber,
+        isMultiFile,
+        allowedPaths: new Set([filePath, ...relatedFiles.map(f => f.path)]),
+        prompt,
+        cacheKey: fixCacheKey({ error, filePath, fileContent, relatedFiles, isMultiFile }),
+    };
+}
 
-## Fixed Code:`;
+/**
+ * Cached patches for this request. Retries skip the cache: they exist because an earlier fix failed.
+ */
+function lookupCachedFix(id, fix) {
+    if (fix.attemptNumber > 1) return null;
+    const entry = fixCache.get(fix.cacheKey);
+    if (entry) log(id, 'INFO', `Cache hit (${entry.hits} hit(s), cached ${new Date(entry.createdAt).toISOString()})`);
+    return entry?.patches ?? null;
+}
 
-        log(id, 'PROMPT', `Sending to Gemini (${prompt.length} chars)`);
+/**
+ * Cache a generated fix unless it changes nothing
+ */
+function storeFix(fix, patches) {
+    const changes = patches.some(p => p.path !== fix.filePath || p.content !== fix.fileContent);
+    if (!changes) return;
+    fixCache.set(fix.cacheKey, {
+        filePath: fix.filePath,
+        fingerprint: errorFingerprint(fix.error).slice(0, 300),
+        patches,
+    });
+}
 
-        const result = await model.generateContent(prompt);
-        const response = result.response;
-        let fixedCode = response.text().trim();
+function logFixRequest(id, body) {
+    const { error, filePath, fileContent, location } = body;
+    const attempts = Array.isArray(body.previousAttempts) ? body.previousAttempts.length : 0;
+
+    log(id, 'INFO', `File: ${filePath}`);
+    log(id, 'INFO', `File size: ${fileContent?.length || 0} chars`);
+    log(id, 'INFO', `Related files: ${Array.isArray(body.relatedFiles) ? body.relatedFiles.length : 0}`);
+    if (attempts > 0) log(id, 'INFO', `Attempt: ${attempts + 1} (${Math.min(attempts, MAX_PREVIOUS_ATTEMPTS)} previous attempt(s) in prompt)`);
+    if (location?.line) log(id, 'INFO', `Location: line ${location.line}, column ${location.column ?? '?'}`);
+    log(id, 'INFO', `Error message:`, error?.slice(0, 300));
+}
 
-        log(id, 'RESPONSE', `Received from Gemini (${fixedCode.length} chars)`);
+/**
+ * Response body shared by the plain and streaming endpoints
+ */
+function toFixResult(fix, patches, duration, cached) {
+    const result = patches.map(p => ({ filePath: p.path, fixedCode: p.content }));
+    return {
+        // Keep fixedCode for clients that only understand single-file fixes
+        fixedCode: result.find(p => p.filePath === fix.filePath)?.fixedCode ?? fix.fileContent,
+        filePath: fix.filePath,
+        patches: result,
+        // Sent back to /api/fix-cache/invalidate if the fix is rolled back
+        cacheKey: fix.cacheKey,
+        cached,
+        success: true,
+        duration,
+    };
+}
 
-        // Clean up response - remove markdown fences if present
-        if (fixedCode.startsWith('```')) {
-            const lines = fixedCode.split('\n');
-            lines.shift(); // Remove opening fence
-            if (lines[lines.length - 1] === '```') {
-                lines.pop(); // Remove closing fence
-            }
-            fixedCode = lines.join('\n');
-            log(id, 'INFO', 'Cleaned markdown fences from response');
+/**
+ * POST /api/fix-error
+ * Receives error details and code, returns fixed code from the LLM.
+ */
+app.post('/api/fix-error', async (req, res) => {
+    const id = ++requestId;
+    const startTime = Date.now();
+
+    try {
+        log(id, 'START', `=== FIX ERROR REQUEST ===`);
+        logFixRequest(id, req.body);
+
+        const fix = prepareFixRequest(req.body);
+        if (!fix) {
+            log(id, 'ERROR', 'Missing required fields');
+            return res.status(400).json({
+                error: 'Missing required fields: error, filePath, fileContent'
+            });
+        }
+
+        const cachedPatches = lookupCachedFix(id, fix);
+        let patches = cachedPatches;
+        if (!patches) {
+            log(id, 'PROMPT', `Sending to ${llm.name} (${fix.prompt.length} chars)`);
+
+            patches = await generateFixPatches(fix.prompt, fix.filePath, fix.allowedPaths, fix.isMultiFile);
+            storeFix(fix, patches);
+
+            log(id, 'RESPONSE', `Received ${patches.length} patch(es) from ${llm.name}`);
         }
 
         const duration = Date.now() - startTime;
+        const result = toFixResult(fix, patches, duration, cachedPatches !== null);
         log(id, 'SUCCESS', `Fix generated in ${duration}ms`);
-        log(id, 'INFO', `Fixed code preview:`, fixedCode.slice(0, 200));
+        log(id, 'INFO', `Patched files: ${result.patches.map(p => p.filePath).join(', ') || '(none)'}`);
+        log(id, 'INFO', `Fixed code preview:`, result.fixedCode.slice(0, 200));
         console.log(`[REQ-${id}] === END FIX ERROR ===\n`);
 
-        res.json({
-            fixedCode,
-            filePath,
-            success: true,
-            duration,
-        });
+        res.json(result);
 
     } catch (err) {
         const duration = Date.now() - startTime;
         log(id, 'ERROR', `Fix failed after ${duration}ms: ${err.message}`);
         console.log(`[REQ-${id}] === END FIX ERROR (FAILED) ===\n`);
 
-        res.status(500).json({
+        res.status(err.status ?? 500).json({
             error: err instanceof Error ? err.message : 'Unknown error',
             success: false,
         });
     }
 });
 
+/**
+ * POST /api/fix-error/stream
+ * Same request as /api/fix-error, answered as Server-Sent Events:
+ *   progress { stage, message }   request accepted, prompt sent, response being parsed
+ *   token    { text }             next chunk of the raw model output
+ *   done     { ...fix result }    same body /api/fix-error returns
+ *   error    { error }
+ * Closing the connection cancels the provider request.
+ */
+app.post('/api/fix-error/stream', async (req, res) => {
+    const id = ++requestId;
+    const startTime = Date.now();
+
+    log(id, 'START', `=== FIX ERROR STREAM ===`);
+    logFixRequest(id, req.body);
+
+    const fix = prepareFixRequest(req.body);
+    if (!fix) {
+        log(id, 'ERROR', 'Missing required fields');
+        return res.status(400).json({
+            error: 'Missing required fields: error, filePath, fileContent'
+        });
+    }
+
+    res.set({
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        'Connection': 'keep-alive',
+    });
+    res.flushHeaders();
+
+    const send = (event, data) => res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    const controller = new AbortController();
+    res.on('close', () => {
+        if (!res.writableEnded) controller.abort();
+    });
+
+    try {
+        const cachedPatches = lookupCachedFix(id, fix);
+        if (cachedPatches) {
+            send('progress', { stage: 'cached', message: 'Using a cached fix', multiFile: fix.isMultiFile });
+            send('done', toFixResult(fix, cachedPatches, Date.now() - startTime, true));
+            console.log(`[REQ-${id}] === END FIX ERROR STREAM (CACHED) ===\n`);
+            return;
+        }
+
+        send('progress', { stage: 'generating', message: `Asking ${llm.name} for a fix`, multiFile: fix.isMultiFile });
+        log(id, 'PROMPT', `Streaming from ${llm.name} (${fix.prompt.length} chars)`);
+
+        let text = '';
+        for await (const chunk of llm.streamText(fix.prompt, { json: fix.isMultiFile, signal: controller.signal })) {
+            if (controller.signal.aborted) break;
+            text += chunk;
+            send('token', { text: chunk });
+        }
+
+        if (controller.signal.aborted) {
+            log(id, 'INFO', `Cancelled by client after ${Date.now() - startTime}ms`);
+            console.log(`[REQ-${id}] === END FIX ERROR STREAM (CANCELLED) ===\n`);
+            return;
+        }
+
+        send('progress', { stage: 'parsing', message: 'Parsing the fix' });
+        const patches = toFixPatches(text, fix.filePath, fix.allowedPaths, fix.isMultiFile);
+        storeFix(fix, patches);
+
+        const duration = Date.now() - startTime;
+        const result = toFixResult(fix, patches, duration, false);
+        log(id, 'SUCCESS', `Fix streamed in ${duration}ms`);
+        log(id, 'INFO', `Patched files: ${result.patches.map(p => p.filePath).join(', ') || '(none)'}`);
+        console.log(`[REQ-${id}] === END FIX ERROR STREAM ===\n`);
+
+        send('done', result);
+    } catch (err) {
+        if (controller.signal.aborted) {
+            log(id, 'INFO', `Cancelled by client after ${Date.now() - startTime}ms`);
+            console.log(`[REQ-${id}] === END FIX ERROR STREAM (CANCELLED) ===\n`);
+            return;
+        }
+        log(id, 'ERROR', `Fix stream failed after ${Date.now() - startTime}ms: ${err.message}`);
+        console.log(`[REQ-${id}] === END FIX ERROR STREAM (FAILED) ===\n`);
+        send('error', { error: err instanceof Error ? err.message : 'Unknown error' });
+    } finally {
+        res.end();
+    }
+});
+
+/**
+ * POST /api/fix-cache/invalidate
+ * Drop cached fixes that were rolled back, so they are generated fresh next time.
+ * Body: { keys: string[] } (cacheKey values from fix responses)
+ */
+app.post('/api/fix-cache/invalidate', (req, res) => {
+    const keys = (Array.isArray(req.body.keys) ? req.body.keys : []).filter(k => typeof k === 'string');
+    const invalidated = keys.filter(key => fixCache.invalidate(key)).length;
+
+    console.log(`[${new Date().toISOString()}] Fix cache: invalidated ${invalidated} of ${keys.length} key(s)`);
+    res.json({ invalidated, success: true });
+});
+
 /**
  * POST /api/analyze-code
  * Analyze code for potential issues before running
@@ -221,20 +554,12 @@ ${filesContent}
   { "file": "path/to/file.tsx", "line": 10, "issue": "Description of issue", "severity": "error|warning" }
 ]`;
 
-        log(id, 'PROMPT', `Sending to Gemini (${prompt.length} chars)`);
-
-        const result = await model.generateContent(prompt);
-        let responseText = result.response.text().trim();
+        log(id, 'PROMPT', `Sending to ${llm.name} (${prompt.length} chars)`);
 
-        log(id, 'RESPONSE', `Received from Gemini (${responseText.length} chars)`);
-
-        // Clean up JSON response
-        if (responseText.startsWith('```')) {
-            responseText = responseText.replace(/^```json?\n?/, '').replace(/\n?```$/, '');
-            log(id, 'INFO', 'Cleaned markdown fences from response');
-        }
+        const issues = await llm.generateJSON(prompt);
+        if (!Array.isArray(issues)) throw new Error('Expected a JSON array of issues');
 
-        const issues = JSON.parse(responseText);
+        log(id, 'RESPONSE', `Received from ${llm.name}`);
 
         const duration = Date.now() - startTime;
         log(id, 'SUCCESS', `Analysis complete in ${duration}ms`);
@@ -269,9 +594,11 @@ app.get('/api/health', (req, res) => {
     console.log(`[${new Date().toISOString()}] Health check`);
     res.json({
         status: 'ok',
-        model: 'gemini-2.0-flash-lite',
+        provider: llm.name,
+        model: llm.model,
         timestamp: new Date().toISOString(),
         requestCount: requestId,
+        fixCache: fixCache.stats(),
     });
 });
 
@@ -281,9 +608,11 @@ app.listen(PORT, () => {
     console.log(`🚀 Preview Testing Server`);
     console.log(`${'='.repeat(50)}`);
     console.log(`📍 URL: http://localhost:${PORT}`);
-    console.log(`📦 Model: gemini-2.0-flash-lite`);
+    console.log(`📦 Provider: ${llm.name} (${llm.model})`);
     console.log(`\nEndpoints:`);
     console.log(`  POST /api/fix-error     - Fix code errors with LLM`);
+    console.log(`  POST /api/fix-error/stream - Same, streamed as Server-Sent Events`);
+    console.log(`  POST /api/fix-cache/invalidate - Drop rolled-back fixes from the cache`);
     console.log(`  POST /api/analyze-code  - Analyze code for issues`);
     console.log(`  GET  /api/health        - Health check`);
     console.log(`${'='.repeat(50)}\n`);
@@ -0,0 +1,39 @@
+/**
+ * Google Gemini provider
+ */
+
+import { GoogleGenerativeAI } from '@google/generative-ai';
+import { parseJSONResponse } from './shared.js';
+
+const DEFAULT_MODEL = 'gemini-2.5-flash-lite-preview-09-2025';
+
+export function createGeminiProvider({ apiKey = '', model = DEFAULT_MODEL } = {}) {
+    const genAI = new GoogleGenerativeAI(apiKey);
+    const textModel = genAI.getGenerativeModel({ model });
+    const jsonModel = genAI.getGenerativeModel({
+        model,
+        generationConfig: { responseMimeType: 'application/json' },
+    });
+
+    return {
+        name: 'gemini',
+        model,
+
+        async generateText(prompt) {
+            const result = await textModel.generateContent(prompt);
+            return result.response.text();
+        },
+
+        async generateJSON(prompt) {
+            const result = await jsonModel.generateContent(prompt);
+            return parseJSONResponse(result.response.text());
+        },
+
+        async *streamText(prompt, { json = false, signal } = {}) {
+            const result = await (json ? jsonModel : textModel).generateContentStream(prompt, { signal });
+            for await (const chunk of result.stream) {
+                yield chunk.text();
+            }
+        },
+    };
+}
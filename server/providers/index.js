@@ -0,0 +1,47 @@
+/**
+ * LLM provider selection
+ *
+ * Every provider implements:
+ *   name, model
+ *   generateText(prompt) -> Promise<string>
+ *   generateJSON(prompt) -> Promise<any>
+ *   streamText(prompt, { json, signal }) -> AsyncIterable<string>   raw output as it arrives
+ *
+ * Selected with LLM_PROVIDER=gemini|openai|mock (default: gemini).
+ */
+
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { createGeminiProvider } from './gemini.js';
+import { createOpenAIProvider } from './openai.js';
+import { createMockProvider, withRecording } from './mock.js';
+
+const DEFAULT_FIXTURES_DIR = path.join(path.dirname(fileURLToPath(import.meta.url)), '..', 'fixtures');
+
+export function createProvider(env = process.env) {
+    const name = (env.LLM_PROVIDER || 'gemini').toLowerCase();
+    const fixturesDir = env.MOCK_FIXTURES_DIR ? path.resolve(env.MOCK_FIXTURES_DIR) : DEFAULT_FIXTURES_DIR;
+
+    let provider;
+    switch (name) {
+        case 'gemini':
+            provider = createGeminiProvider({
+                apiKey: env.GEMINI_API_KEY,
+                model: env.GEMINI_MODEL || undefined,
+            });
+            break;
+        case 'openai':
+            provider = createOpenAIProvider({
+                baseUrl: env.OPENAI_BASE_URL || undefined,
+                apiKey: env.OPENAI_API_KEY,
+                model: env.OPENAI_MODEL || undefined,
+            });
+            break;
+        case 'mock':
+            return createMockProvider({ fixturesDir });
+        default:
+            throw new Error(`Unknown LLM_PROVIDER "${name}" (expected gemini, openai or mock)`);
+    }
+
+    return env.LLM_RECORD === '1' ? withRecording(provider, { fixturesDir }) : provider;
+}
@@ -0,0 +1,124 @@
+/**
+ * Deterministic mock / replay provider driven by fixture files
+ *
+ * Each *.json file in the fixtures directory holds one fixture:
+ *   { "promptHash": "...", "response": ... }   exact replay of a recorded prompt
+ *   { "match": "substring", "response": ... }  any prompt containing the substring
+ *   { "matchRegex": "pattern", "response": ... }
+ *
+ * Instead of "response", "responseFromPrompt" holds a regex whose first group,
+ * taken from the prompt, is the response (e.g. to echo the file back unchanged).
+ * Fixtures with "fallback": true only apply when nothing else matches; the
+ * shipped fallbacks give a no-op answer to every prompt the server sends.
+ *
+ * Exact hashes win over substring matches, which win over regexes; within a
+ * kind, fixtures are tried in file name order. String responses are returned
+ * as-is (and parsed for generateJSON); object/array responses are serialized
+ * for generateText.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { hashPrompt, parseJSONResponse } from './shared.js';
+
+export function loadFixtures(dir) {
+    if (!fs.existsSync(dir)) return [];
+
+    return fs.readdirSync(dir)
+        .filter(file => file.endsWith('.json'))
+        .sort()
+        .map(file => ({ file, ...JSON.parse(fs.readFileSync(path.join(dir, file), 'utf8')) }));
+}
+
+function findMatching(fixtures, prompt) {
+    const hash = hashPrompt(prompt);
+    return fixtures.find(f => f.promptHash === hash)
+        || fixtures.find(f => typeof f.match === 'string' && prompt.includes(f.match))
+        || fixtures.find(f => typeof f.matchRegex === 'string' && new RegExp(f.matchRegex).test(prompt))
+        || null;
+}
+
+export function findFixture(fixtures, prompt) {
+    return findMatching(fixtures.filter(f => !f.fallback), prompt)
+        || findMatching(fixtures.filter(f => f.fallback), prompt);
+}
+
+export function createMockProvider({ fixturesDir }) {
+    function resolve(prompt) {
+        // Re-read on every call so fixtures can be edited while the server runs
+        const fixture = findFixture(loadFixtures(fixturesDir), prompt);
+        if (!fixture) {
+            throw new Error(`No mock fixture matches this prompt (promptHash ${hashPrompt(prompt)})`);
+        }
+        if (typeof fixture.responseFromPrompt === 'string') {
+            const match = prompt.match(new RegExp(fixture.responseFromPrompt));
+            if (!match || match[1] === undefined) {
+                throw new Error(`Mock fixture ${fixture.file}: responseFromPrompt does not match the prompt`);
+            }
+            return match[1];
+        }
+        return fixture.response;
+    }
+
+    return {
+        name: 'mock',
+        model: `fixtures:${path.basename(fixturesDir)}`,
+
+        async generateText(prompt) {
+            const response = resolve(prompt);
+            return typeof response === 'string' ? response : JSON.stringify(response, null, 2);
+        },
+
+        async generateJSON(prompt) {
+            const response = resolve(prompt);
+            return typeof response === 'string' ? parseJSONResponse(response) : response;
+        },
+
+        // Replays the response line by line, so clients see partial output like a real stream
+        async *streamText(prompt, { signal } = {}) {
+            const response = resolve(prompt);
+            const text = typeof response === 'string' ? response : JSON.stringify(response, null, 2);
+            for (const line of text.split(/(?<=\n)/)) {
+                if (signal?.aborted) return;
+                yield line;
+            }
+        },
+    };
+}
+
+/**
+ * Wrap a real provider and save every response as a replay fixture
+ */
+export function withRecording(provider, { fixturesDir }) {
+    function record(prompt, response) {
+        fs.mkdirSync(fixturesDir, { recursive: true });
+        const promptHash = hashPrompt(prompt);
+        const fixture = { promptHash, provider: provider.name, model: provider.model, response };
+        fs.writeFileSync(path.join(fixturesDir, `recorded-${promptHash}.json`), JSON.stringify(fixture, null, 2));
+    }
+
+    return {
+        ...provider,
+
+        async generateText(prompt) {
+            const response = await provider.generateText(prompt);
+            record(prompt, response);
+            return response;
+        },
+
+        async generateJSON(prompt) {
+            const response = await provider.generateJSON(prompt);
+            record(prompt, response);
+            return response;
+        },
+
+        async *streamText(prompt, options = {}) {
+            let text = '';
+            for await (const chunk of provider.streamText(prompt, options)) {
+                text += chunk;
+                yield chunk;
+            }
+            record(prompt, options.json ? parseJSONResponse(text) : text);
+        },
+    };
+}
@@ -0,0 +1,81 @@
+/**
+ * OpenAI-compatible provider (OpenAI, Ollama, LM Studio, llama.cpp server, vLLM...)
+ * Talks to any endpoint implementing POST /chat/completions.
+ */
+
+import { parseJSONResponse } from './shared.js';
+
+const DEFAULT_BASE_URL = 'http://localhost:11434/v1';
+const DEFAULT_MODEL = 'qwen2.5-coder:7b';
+
+export function createOpenAIProvider({ baseUrl = DEFAULT_BASE_URL, apiKey = '', model = DEFAULT_MODEL } = {}) {
+    const endpoint = `${baseUrl.replace(/\/+$/, '')}/chat/completions`;
+
+    async function request(prompt, { stream = false, signal } = {}) {
+        const response = await fetch(endpoint, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+            },
+            body: JSON.stringify({
+                model,
+                messages: [{ role: 'user', content: prompt }],
+                temperature: 0.2,
+                stream,
+            }),
+            signal,
+        });
+
+        if (!response.ok) {
+            const body = await response.text();
+            throw new Error(`OpenAI-compatible endpoint returned ${response.status}: ${body.slice(0, 200)}`);
+        }
+        return response;
+    }
+
+    async function complete(prompt) {
+        const response = await request(prompt);
+        const data = await response.json();
+        const content = data.choices?.[0]?.message?.content;
+        if (typeof content !== 'string') {
+            throw new Error('OpenAI-compatible endpoint returned no message content');
+        }
+        return content;
+    }
+
+    return {
+        name: 'openai',
+        model,
+
+        generateText(prompt) {
+            return complete(prompt);
+        },
+
+        async generateJSON(prompt) {
+            // response_format is not supported everywhere and forces an object, so rely on the prompt
+            return parseJSONResponse(await complete(prompt));
+        },
+
+        // Streamed completions arrive as SSE "data:" lines, ending with [DONE]
+        async *streamText(prompt, { signal } = {}) {
+            const response = await request(prompt, { stream: true, signal });
+            const decoder = new TextDecoder();
+            let buffer = '';
+
+            for await (const bytes of response.body) {
+                buffer += decoder.decode(bytes, { stream: true });
+                const lines = buffer.split('\n');
+                buffer = lines.pop();
+
+                for (const line of lines) {
+                    if (!line.startsWith('data:')) continue;
+                    const data = line.slice(5).trim();
+                    if (data === '[DONE]') return;
+                    const delta = JSON.parse(data).choices?.[0]?.delta?.content;
+                    if (delta) yield delta;
+                }
+            }
+        },
+    };
+}
@@ -0,0 +1,38 @@
+/**
+ * Helpers shared by the LLM providers
+ */
+
+import { createHash } from 'crypto';
+
+/**
+ * Strip a single surrounding markdown code fence, if present
+ */
+export function stripCodeFences(text) {
+    if (!text.startsWith('```')) return text;
+    const lines = text.split('\n');
+    lines.shift(); // Remove opening fence
+    if (lines[lines.length - 1] === '```') {
+        lines.pop(); // Remove closing fence
+    }
+    return lines.join('\n');
+}
+
+/**
+ * Parse a JSON response, tolerating markdown fences around it
+ */
+export function parseJSONResponse(text) {
+    try {
+        return JSON.parse(stripCodeFences(text.trim()));
+    } catch (err) {
+        // Keep the raw text so callers can fall back to it
+        err.responseText = text;
+        throw err;
+    }
+}
+
+/**
+ * Short stable hash of a prompt, used to key replay fixtures
+ */
+export function hashPrompt(prompt) {
+    return createHash('sha256').update(prompt).digest('hex').slice(0, 16);
+}
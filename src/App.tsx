@@ -1,37 +1,144 @@
-import { useState, useCallback, useEffect, useRef } from 'react';
+import { useState, useCallback, useEffect, useRef, useMemo } from 'react';
 import { ZipUpload } from './components/ZipUpload';
+import { RecentProjects } from './components/RecentProjects';
 import { FileExplorer } from './components/FileExplorer';
 import { CodeEditor } from './components/CodeEditor';
+import { AssetViewer } from './components/AssetViewer';
+import { FixReviewPanel } from './components/FixReviewPanel';
+import { FixHistoryPanel } from './components/FixHistoryPanel';
+import { FixStreamPanel } from './components/FixStreamPanel';
 import { WebContainerPreview } from './components/WebContainerPreview';
-import type { FileNode } from './utils/fileUtils';
-import { extractZip, toWebContainerFS, findRootPrefix, flattenFiles } from './utils/zipUtils';
+import { CacheManager } from './components/CacheManager';
+import { DependencyConflicts } from './components/DependencyConflicts';
+import type { FileNode, FileSaveStatus } from './utils/fileUtils';
+import { updateFileContent } from './utils/fileUtils';
+import type { FilePatch, FixProposal, FixAttempt } from './utils/fixUtils';
+import { applyPatchesToTree } from './utils/fixUtils';
+import { getRelatedFiles } from './utils/importGraph';
+import { streamFix, createStreamPreview } from './utils/fixStream';
+import type { StreamedCode } from './utils/fixStream';
+import type { FixHistoryEntry } from './utils/fixHistory';
+import { createHistoryEntry, snapshotContents, latestContent, entriesUndoneBy, markReverted, setEntryStatus, toChangelog, recordManualEdit, capHistory } from './utils/fixHistory';
+import type { ConflictResolutions } from './utils/dependencies';
+import { parsePackageJson, findDependencyConflicts, mergePackageJson } from './utils/dependencies';
+import { toWebContainerFS, findRootPrefix, flattenFiles, toContainerPath, createZip } from './utils/zipUtils';
+import type { ProjectImport } from './utils/importUtils';
+import { projectBaseName } from './utils/importUtils';
 import { useWebContainer } from './hooks/useWebContainer';
-import { parseStackTrace } from './utils/errorReporter';
-import { Play, FileArchive, RotateCcw, Zap, Sparkles, Database, Loader2, Wand2, CheckCircle, AlertTriangle } from 'lucide-react';
+import { useBackgroundChecks } from './hooks/useBackgroundChecks';
+import type { FixVerification, VerificationResult } from './hooks/useFixVerification';
+import { useFixVerification } from './hooks/useFixVerification';
+import type { ProblemCount } from './components/FileExplorer';
+import type { Diagnostic } from './utils/diagnostics';
+import { parseDiagnostics, outputSinceRebuild, formatDiagnostic, diagnosticKey, diagnosticIdentity, findDiagnosticFile } from './utils/diagnostics';
+import { ProblemsPanel } from './components/ProblemsPanel';
+import { ConsolePanel } from './components/ConsolePanel';
+import { RouteHealthPanel } from './components/RouteHealthPanel';
+import { useRouteCrawl } from './hooks/useRouteCrawl';
+import { NetworkPanel } from './components/NetworkPanel';
+import { BASE_PACKAGE_JSON, TEMPLATES } from './utils/projectTemplates';
+import { detectProject } from './utils/projectDetector';
+import { findRoutes } from './utils/routes';
+import { saveWorkspace, loadWorkspace } from './utils/cache';
+import type { ResolvedFrame, ConsoleEntry, ConsoleLevel, SerializedArg, NetworkRequest } from './utils/errorReporter';
+import type { PreviewNavigation } from './utils/errorReporter';
+import { parseStackTrace, findRelatedFailedRequest, formatNetworkRequest, isFailedRequest, postPreviewNavigation, isPrimaryPreviewFrame } from './utils/errorReporter';
+import { Play, FileArchive, RotateCcw, Zap, Sparkles, Database, Loader2, Wand2, CheckCircle, AlertTriangle, Download, ShieldCheck, GitCompare, Layers, CircleAlert, ScrollText, Network, History, Route as RouteIcon } from 'lucide-react';
 
 const API_URL = 'http://localhost:3001';
 const MAX_FIX_ATTEMPTS = 15;
+// Failed fixes for one error before giving up; the last attempt stubs the failing code out
+const MAX_ATTEMPTS_PER_ERROR = 4;
+const EDIT_SAVE_DELAY_MS = 600;
+// Streamed tokens are shown in batches, one render per interval rather than per token
+const STREAM_FLUSH_MS = 100;
+// Oldest console messages are dropped beyond this
+const MAX_CONSOLE_ENTRIES = 500;
+const MAX_NETWORK_ENTRIES = 300;
+// Quiet period before the open project is saved as a workspace
+const WORKSPACE_SAVE_DELAY_MS = 1000;
+
+// File opened first: the app entry component, else the HTML entry, else the first file
+const findMainFile = (files: FileNode[]): FileNode | undefined => {
+    const allFiles = flattenFiles(files);
+    return allFiles.find(f => ['App.tsx', 'App.jsx', 'App.vue', 'App.svelte'].includes(f.name))
+        || allFiles.find(f => f.name === 'index.html')
+        || allFiles[0];
+};
+
+// Tell the server these cached fixes were rolled back so they are not served again
+const invalidateCachedFixes = (keys: (string | undefined)[]) => {
+    const unique = [...new Set(keys.filter((key): key is string => Boolean(key)))];
+    if (unique.length === 0) return;
+    fetch(`${API_URL}/api/fix-cache/invalidate`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ keys: unique }),
+    }).catch(err => console.warn('Could not invalidate cached fixes:', err));
+};
 
 function App() {
     const [files, setFiles] = useState<FileNode[]>([]);
-    const [selectedFile, setSelectedFile] = useState<FileNode | null>(null);
+    const [selectedPath, setSelectedPath] = useState<string | null>(null);
+    const [fileStatus, setFileStatus] = useState<Record<string, FileSaveStatus>>({});
     const [isExtracting, setIsExtracting] = useState(false);
+    // Why the last saved workspace could not be reopened, shown on the upload screen
+    const [openError, setOpenError] = useState<string | null>(null);
     const [zipName, setZipName] = useState<string>('');
+    // Saved workspace the open project is stored as
+    const [workspaceId, setWorkspaceId] = useState<string | null>(null);
     const [isFixing, setIsFixing] = useState(false);
     const [fixCount, setFixCount] = useState(0);
     const [currentAction, setCurrentAction] = useState<string | null>(null);
     const [fixLog, setFixLog] = useState<string[]>([]);
+    const [history, setHistory] = useState<FixHistoryEntry[]>([]);
+    const [showHistory, setShowHistory] = useState(false);
+    const [isReverting, setIsReverting] = useState(false);
+    const [includeFixesMd, setIncludeFixesMd] = useState(true);
+    const [isExporting, setIsExporting] = useState(false);
+    const [autoApplyFixes, setAutoApplyFixes] = useState(true);
+    const [proposals, setProposals] = useState<FixProposal[]>([]);
+    const [resolutions, setResolutions] = useState<ConflictResolutions>({});
+    // Resolutions the running preview was started with
+    const [startedResolutions, setStartedResolutions] = useState<ConflictResolutions | null>(null);
+    // Errors reported by the preview iframe; build errors come from the terminal
+    const [runtimeProblems, setRuntimeProblems] = useState<Diagnostic[]>([]);
+    // Type and lint errors only feed the auto-fixer when opted in
+    const [autoFixChecks, setAutoFixChecks] = useState(false);
+    const [consoleEntries, setConsoleEntries] = useState<ConsoleEntry[]>([]);
+    const [networkRequests, setNetworkRequests] = useState<NetworkRequest[]>([]);
+    // Fix being generated, shown live while the model writes it
+    // requested: started by the user, so it may take over the editor; auto-fixes stream below it
+    const [streamingFix, setStreamingFix] = useState<{ path: string; preview: StreamedCode; status: string; requested: boolean } | null>(null);
+    // Fixes queued from the route health report, run one at a time
+    const [fixQueue, setFixQueue] = useState<Diagnostic[]>([]);
 
     const fixingRef = useRef(false);
     const fixAttempts = useRef(0);
     const lastErrorRef = useRef<string>('');
+    // Rolled-back fixes per error identity, sent with the next request for that error
+    const failedAttemptsRef = useRef<Map<string, FixAttempt[]>>(new Map());
+    // Aborts the in-flight fix request
+    const fixAbortRef = useRef<AbortController | null>(null);
     const filesRef = useRef<FileNode[]>([]);
+    const saveTimersRef = useRef<Map<string, ReturnType<typeof setTimeout>>>(new Map());
+    const consoleIdRef = useRef(0);
+    // Mirrors history for async writers; originals are the uploaded file contents
+    const historyRef = useRef<FixHistoryEntry[]>([]);
+    const originalsRef = useRef<Map<string, string>>(new Map());
+    // Mirrors networkRequests for the runtime error handler
+    const networkRequestsRef = useRef<NetworkRequest[]>([]);
+    // Container of the preview iframes, driven by the route crawl
+    const previewFramesRef = useRef<HTMLDivElement>(null);
 
     // Keep files ref in sync
     useEffect(() => {
         filesRef.current = files;
     }, [files]);
 
+    // Framework of the uploaded project, which picks the template and start command
+    const detectedProject = useMemo(() => detectProject(files), [files]);
+
     const {
         isBooting,
         isInstalling,
@@ -41,159 +148,434 @@ function App() {
         terminalOutput,
         isPreWarmed,
         isPreWarming,
+        depsSource,
         mountFiles,
         startDevServer,
         updateFile,
+        spawnShell,
+        runCommand,
+        fsVersion,
         reset,
     } = useWebContainer();
 
-    // Parse error from terminal output
-    const parseError = useCallback((output: string[]): { file: string; error: string } | null => {
-        const text = output.slice(-60).join('\n');
-
-        // Check for various error patterns
-        const patterns = [
-            // Vite resolve error
-            /Failed to resolve import ["']([^"']+)["'] from ["']([^"']+)["']/,
-            // Module not found
-            /Cannot find module ['"]([^'"]+)['"]/,
-            // X is not defined
-            /(\w+) is not defined/,
-            // Syntax/Type errors
-            /(SyntaxError|TypeError|ReferenceError):\s*(.+?)(?:\n|$)/,
-        ];
-
-        for (const pattern of patterns) {
-            if (pattern.test(text)) {
-                const fileMatch = text.match(/(?:src\/[\w\-\/]+\.tsx?)/);
-                if (fileMatch) {
-                    return { file: fileMatch[0], error: text.slice(-500) };
-                }
+    const { checkProblems, isChecking, hasTypeScript, hasEslint } = useBackgroundChecks({
+        files,
+        fsVersion,
+        runCommand,
+        enabled: isRunning,
+    });
+
+    // Build errors since the last rebuild, runtime errors from the preview, then type and lint results
+    const problems = useMemo(() => [
+        ...parseDiagnostics(outputSinceRebuild(terminalOutput)),
+        ...runtimeProblems,
+        ...checkProblems,
+    ], [terminalOutput, runtimeProblems, checkProblems]);
+
+    // Problems keyed by tree path, for editor markers and explorer decorations
+    const problemsByPath = useMemo(() => {
+        const byPath = new Map<string, Diagnostic[]>();
+        for (const problem of problems) {
+            const path = findDiagnosticFile(files, problem.file)?.path;
+            if (path) byPath.set(path, [...(byPath.get(path) ?? []), problem]);
+        }
+        return byPath;
+    }, [problems, files]);
+
+    const problemCounts = useMemo(() => {
+        const counts: Record<string, ProblemCount> = {};
+        problemsByPath.forEach((list, path) => {
+            const warnings = list.filter(p => p.severity === 'warning').length;
+            counts[path] = { errors: list.length - warnings, warnings };
+        });
+        return counts;
+    }, [problemsByPath]);
+
+    const updateHistory = useCallback((next: FixHistoryEntry[]) => {
+        const capped = capHistory(next);
+        historyRef.current = capped;
+        setHistory(capped);
+    }, []);
+
+    // Applied, still-active AI fixes for FIXES.md
+    const fixChangelog = useMemo(() => toChangelog(history), [history]);
+    // Pages to open from the preview's address bar
+    const routes = useMemo(() => findRoutes(files), [files]);
+
+    // Drop a debounced editor save that would write over content about to be replaced
+    const cancelPendingSave = useCallback((path: string) => {
+        const pending = saveTimersRef.current.get(path);
+        if (pending) {
+            clearTimeout(pending);
+            saveTimersRef.current.delete(path);
+        }
+    }, []);
+
+    // Write restored contents to the tree, and to the container when it is running
+    const restoreContents = useCallback(async (contents: Map<string, string>) => {
+        const prefix = findRootPrefix(filesRef.current);
+        for (const [path, content] of contents) {
+            cancelPendingSave(path);
+            if (isRunning && !(await updateFile(toContainerPath(path, prefix), content))) {
+                setFixLog(prev => [...prev, `❌ Revert failed: could not write ${path}`]);
+                return false;
             }
         }
+        setFiles(prev => [...contents].reduce((tree, [path, content]) => updateFileContent(tree, path, content), prev));
+        setFileStatus(prev => Object.fromEntries(Object.entries(prev).filter(([path]) => !contents.has(path))));
+        return true;
+    }, [isRunning, updateFile, cancelPendingSave]);
+
+    // Keep a fix the preview accepted; put its files back if the error stayed or new ones appeared
+    const handleVerificationSettled = useCallback(async (verification: FixVerification, result: VerificationResult) => {
+        const ids = new Set(verification.entryIds);
+        if (result.confirmed) {
+            updateHistory(setEntryStatus(historyRef.current, ids, 'confirmed'));
+            setFixLog(prev => [...prev, `✔️ Verified: ${verification.paths.join(', ')}`]);
+            return;
+        }
+        if (result.unverified) {
+            updateHistory(setEntryStatus(historyRef.current, ids, undefined));
+            setFixLog(prev => [...prev, `➖ Applied without verification: ${verification.paths.join(', ')} (left to the next type and lint check)`]);
+            return;
+        }
+
+        // Files edited since the fix keep the edit rather than being rolled back under the user
+        const entries = historyRef.current.filter(e => ids.has(e.id) && !e.revertedAt);
+        const current = snapshotContents(filesRef.current);
+        const restore = new Map<string, string>();
+        for (const path of verification.paths) {
+            const forPath = entries.filter(e => e.path === path);
+            if (forPath.length > 0 && current.get(path) === forPath[forPath.length - 1].after) {
+                restore.set(path, forPath[0].before);
+            }
+        }
+
+        invalidateCachedFixes(entries.map(e => e.cacheKey));
 
-        return null;
+        const ok = restore.size === 0 || await restoreContents(restore);
+        const rolledBack = ok ? new Set(entries.filter(e => restore.has(e.path)).map(e => e.id)) : new Set<string>();
+
+        // Remember what was tried so the next request for these errors escalates instead of repeating it
+        if (rolledBack.size > 0) {
+            const attempt: FixAttempt = {
+                patches: entries.map(e => ({ filePath: e.path, fixedCode: e.after })),
+                result: [
+                    `The fix was rolled back because ${result.reason}.`,
+                    ...result.newErrors.map(e => `- ${e.file}${e.line !== null ? `:${e.line}` : ''}: ${e.message}`),
+                ].join('\n'),
+                timestamp: Date.now(),
+            };
+            for (const target of verification.targets) {
+                const identity = diagnosticIdentity(target);
+                failedAttemptsRef.current.set(identity, [...(failedAttemptsRef.current.get(identity) ?? []), attempt]);
+            }
+        }
+        // Let the same error be picked up again for the next attempt
+        lastErrorRef.current = '';
+
+        // Entries that stayed applied (edited since, or the rollback write failed) are not marked failed
+        const stillApplied = new Set([...ids].filter(id => !rolledBack.has(id)));
+        updateHistory([
+            ...markReverted(setEntryStatus(setEntryStatus(historyRef.current, rolledBack, 'failed'), stillApplied, undefined), rolledBack),
+            ...(ok ? [...restore].map(([path, content]) => createHistoryEntry({
+                path,
+                before: current.get(path) ?? '',
+                after: content,
+                error: null,
+                source: 'revert',
+            })) : []),
+        ]);
+        if (!ok) return;
+
+        setRuntimeProblems(prev => prev.filter(p => !result.newErrors.includes(p)));
+        if (restore.size > 0) {
+            setFixLog(prev => [...prev, `↩️ Rolled back fix for ${[...restore.keys()].join(', ')}: ${result.reason}`]);
+        }
+        const kept = verification.paths.filter(path => !restore.has(path));
+        if (kept.length > 0) {
+            setFixLog(prev => [...prev, `⚠️ Fix failed verification but ${kept.join(', ')} changed since, so it was kept`]);
+        }
+    }, [restoreContents, updateHistory]);
+
+    const { verification, phase: verificationPhase, startVerification, cancelVerification } = useFixVerification({
+        problems,
+        terminalOutput,
+        onSettled: handleVerificationSettled,
+    });
+
+    const navigatePreview = useCallback((navigation: PreviewNavigation) => {
+        postPreviewNavigation(previewFramesRef.current, navigation);
     }, []);
 
-    // Fix code error using LLM
-    const fixCodeError = useCallback(async (errorFile: string, errorText: string) => {
+    const { crawl, startCrawl, cancelCrawl, clearCrawl, recordRuntimeError, recordConsoleError } = useRouteCrawl({
+        navigate: navigatePreview,
+    });
+    const isCrawling = crawl?.running ?? false;
+    // Every route that can be opened as is; "/" is visited even when no router was found
+    const crawlPaths = useMemo(
+        () => ['/', ...routes.filter(r => !r.dynamic && r.path !== '/').map(r => r.path)],
+        [routes]
+    );
+
+    // Write a fix to the container and the tree, record it in the history and start verifying it.
+    // All patches land or none do: a failed write restores the files already written.
+    const applyFix = useCallback(async (patches: FilePatch[], errorText: string, diagnostic?: Diagnostic, cacheKey?: string) => {
+        const prefix = findRootPrefix(filesRef.current);
+        const current = new Map(flattenFiles(filesRef.current).map(f => [f.path, f.content ?? '']));
+        const written: FilePatch[] = [];
+
+        for (const patch of patches) {
+            cancelPendingSave(patch.path);
+            const ok = await updateFile(toContainerPath(patch.path, prefix), patch.fixedCode);
+            if (!ok) {
+                for (const done of written) {
+                    await updateFile(toContainerPath(done.path, prefix), current.get(done.path) ?? done.originalCode);
+                }
+                setFixLog(prev => [...prev, `❌ Fix rolled back: could not write ${patch.path}`]);
+                return false;
+            }
+            written.push(patch);
+        }
+
+        setFiles(prev => applyPatchesToTree(prev, patches));
+        setFileStatus(prev => Object.fromEntries(Object.entries(prev).filter(([path]) => !patches.some(p => p.path === path))));
+        const entries = patches.map(patch => createHistoryEntry({
+            path: patch.path,
+            before: current.get(patch.path) ?? patch.originalCode,
+            after: patch.fixedCode,
+            error: errorText,
+            source: 'llm',
+            status: 'verifying',
+            cacheKey,
+        }));
+        updateHistory([...historyRef.current, ...entries]);
+        setFixCount(prev => prev + 1);
+        setFixLog(prev => [...prev, `✅ Fixed: ${patches.map(p => p.path).join(', ')}`]);
+        const patched = new Set(patches.map(p => p.path));
+        setRuntimeProblems(prev => prev.filter(p => !patched.has(findDiagnosticFile(filesRef.current, p.file)?.path ?? '')));
+        startVerification({
+            entryIds: entries.map(e => e.id),
+            paths: patches.map(p => p.path),
+            targets: diagnostic ? [diagnostic] : [],
+        });
+        return true;
+    }, [updateFile, updateHistory, startVerification, cancelPendingSave]);
+
+    // Fix a diagnostic using LLM
+    const fixCodeError = useCallback(async (diagnostic: Diagnostic, requested = false) => {
         if (fixingRef.current) return false;
 
-        const errorKey = `${errorFile}:${errorText.slice(0, 50)}`;
+        const errorKey = diagnosticKey(diagnostic);
         if (errorKey === lastErrorRef.current) return false;
         lastErrorRef.current = errorKey;
 
+        const previousAttempts = failedAttemptsRef.current.get(diagnosticIdentity(diagnostic)) ?? [];
+        if (previousAttempts.length >= MAX_ATTEMPTS_PER_ERROR) {
+            setFixLog(prev => [...prev, `⛔ Giving up on ${diagnostic.file} after ${previousAttempts.length} failed fixes`]);
+            return false;
+        }
+        const attemptNumber = previousAttempts.length + 1;
+
+        const errorText = formatDiagnostic(diagnostic);
+
         fixingRef.current = true;
         setIsFixing(true);
-        setCurrentAction(`Fixing: ${errorFile}`);
+        setCurrentAction(`Fixing: ${diagnostic.file}`);
         fixAttempts.current++;
 
-        try {
-            const allFiles = flattenFiles(filesRef.current);
-
-            let targetFile = allFiles.find(f =>
-                f.path === errorFile ||
-                f.path.endsWith(errorFile) ||
-                f.path.includes(errorFile.replace('src/', ''))
-            );
+        const controller = new AbortController();
+        fixAbortRef.current = controller;
+        let flushTimer: ReturnType<typeof setTimeout> | null = null;
 
-            if (!targetFile?.content) {
-                const fileName = errorFile.split('/').pop();
-                if (fileName) {
-                    targetFile = allFiles.find(f => f.name === fileName);
-                }
-            }
+        try {
+            const targetFile = findDiagnosticFile(filesRef.current, diagnostic.file);
 
             if (!targetFile?.content) {
-                setFixLog(prev => [...prev, `❌ File not found: ${errorFile}`]);
+                setFixLog(prev => [...prev, `❌ File not found: ${diagnostic.file}`]);
                 return false;
             }
 
-            console.log(`🔧 Fixing code in: ${targetFile.path}`);
-            setFixLog(prev => [...prev, `🔧 Fixing: ${targetFile.path}`]);
-
-            const response = await fetch(`${API_URL}/api/fix-error`, {
-                method: 'POST',
-                headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify({
-                    error: errorText,
-                    filePath: targetFile.path,
-                    fileContent: targetFile.content,
-                }),
+            // One proposal per file at a time while in review mode
+            if (proposals.some(p => p.path === targetFile.path)) return false;
+
+            // Send the files on both sides of the failing file's imports as context
+            const relatedFiles = getRelatedFiles(filesRef.current, targetFile.path).map(({ node, relation }) => ({
+                path: node.path,
+                content: node.content,
+                relation,
+            }));
+
+            console.log(`🔧 Fixing code in: ${targetFile.path} (attempt ${attemptNumber})`);
+            setFixLog(prev => [...prev, attemptNumber > 1
+                ? `🔧 Fixing: ${targetFile.path} (attempt ${attemptNumber} of ${MAX_ATTEMPTS_PER_ERROR})`
+                : `🔧 Fixing: ${targetFile.path}`]);
+
+            // What the fix is generated against; edits made while it streams must not be overwritten
+            const sent = snapshotContents(filesRef.current);
+
+            let streamed = '';
+            let multiFile = relatedFiles.length > 0;
+            const preview = createStreamPreview();
+            const flush = () => {
+                flushTimer = null;
+                setStreamingFix(prev => prev && { ...prev, preview: preview(streamed, multiFile) });
+            };
+            setStreamingFix({ path: targetFile.path, preview: { path: null, code: '' }, status: 'Connecting...', requested });
+
+            const { fixedCode, patches, cacheKey, cached } = await streamFix(`${API_URL}/api/fix-error/stream`, {
+                error: errorText,
+                filePath: targetFile.path,
+                fileContent: targetFile.content,
+                relatedFiles,
+                previousAttempts: previousAttempts.map(({ patches, result }) => ({ patches, result })),
+                location: diagnostic.line !== null ? {
+                    line: diagnostic.line,
+                    column: diagnostic.column,
+                    excerpt: diagnostic.excerpt,
+                } : undefined,
+            }, {
+                signal: controller.signal,
+                onEvent: (event) => {
+                    if (event.type === 'token') {
+                        streamed += event.text;
+                        flushTimer ??= setTimeout(flush, STREAM_FLUSH_MS);
+                    } else {
+                        multiFile = event.multiFile ?? multiFile;
+                        setStreamingFix(prev => prev && { ...prev, status: event.message });
+                    }
+                },
             });
 
-            if (!response.ok) throw new Error('Backend failed');
+            if (cached) setFixLog(prev => [...prev, `⚡ Reusing cached fix: ${targetFile.path}`]);
 
-            const { fixedCode } = await response.json();
+            // Older servers only return fixedCode for the failing file
+            const returned = patches ?? (fixedCode ? [{ filePath: targetFile.path, fixedCode }] : []);
+            const changes: FilePatch[] = returned
+                .filter(p => sent.has(p.filePath) && p.fixedCode && p.fixedCode !== sent.get(p.filePath))
+                .map(p => ({ path: p.filePath, originalCode: sent.get(p.filePath) ?? '', fixedCode: p.fixedCode }));
 
-            if (fixedCode && fixedCode !== targetFile.content) {
-                await updateFile(targetFile.path, fixedCode);
+            const current = snapshotContents(filesRef.current);
+            const edited = changes.filter(c => current.get(c.path) !== c.originalCode).map(c => c.path);
+            if (edited.length > 0) {
+                setFixLog(prev => [...prev, `⚠️ Dropped fix: ${edited.join(', ')} changed while it was generated`]);
+                // Let the error be picked up again against the edited code
+                lastErrorRef.current = '';
+                return false;
+            }
 
-                const updateFileInTree = (nodes: FileNode[]): FileNode[] => {
-                    return nodes.map(node => {
-                        if (node.path === targetFile!.path) {
-                            return { ...node, content: fixedCode };
-                        }
-                        if (node.children) {
-                            return { ...node, children: updateFileInTree(node.children) };
-                        }
-                        return node;
-                    });
-                };
-                setFiles(updateFileInTree(filesRef.current));
-                setFixCount(prev => prev + 1);
-                setFixLog(prev => [...prev, `✅ Fixed: ${targetFile.path}`]);
-                return true;
+            if (changes.length > 0) {
+                if (!autoApplyFixes) {
+                    setProposals(prev => [...prev, {
+                        id: `${targetFile.path}:${Date.now()}`,
+                        path: targetFile.path,
+                        error: errorText,
+                        diagnostic,
+                        patches: changes,
+                        cacheKey,
+                        createdAt: Date.now(),
+                    }]);
+                    setFixLog(prev => [...prev, `📝 Fix ready for review: ${targetFile.path}`]);
+                    return false;
+                }
+
+                return await applyFix(changes, errorText, diagnostic, cacheKey);
             }
         } catch (err) {
-            console.error('Fix failed:', err);
-            setFixLog(prev => [...prev, `❌ Error: ${err}`]);
+            if (controller.signal.aborted) {
+                setFixLog(prev => [...prev, `⏹️ Fix cancelled: ${diagnostic.file}`]);
+            } else {
+                console.error('Fix failed:', err);
+                setFixLog(prev => [...prev, `❌ Error: ${err}`]);
+            }
         } finally {
+            if (flushTimer) clearTimeout(flushTimer);
             fixingRef.current = false;
+            fixAbortRef.current = null;
             setIsFixing(false);
             setCurrentAction(null);
+            setStreamingFix(null);
         }
         return false;
-    }, [updateFile]);
+    }, [applyFix, autoApplyFixes, proposals]);
+
+    const handleCancelFix = useCallback(() => {
+        fixAbortRef.current?.abort();
+    }, []);
 
-    // Watch terminal and auto-fix
+    // Watch build problems and auto-fix the oldest one in a project file, once the last fix is verified
     useEffect(() => {
-        if (!isRunning || fixingRef.current || isFixing) return;
+        if (!isRunning || fixingRef.current || isFixing || verification || isCrawling) return;
         if (fixAttempts.current >= MAX_FIX_ATTEMPTS) return;
 
-        const errorInfo = parseError(terminalOutput);
-        if (errorInfo && errorInfo.file) {
+        const problem = problems.find(p => {
+            if (p.source === 'runtime' || p.severity === 'warning') return false;
+            if ((p.source === 'typescript' || p.source === 'eslint') && !autoFixChecks) return false;
+            return findDiagnosticFile(filesRef.current, p.file);
+        });
+        if (problem) {
             const timeoutId = setTimeout(() => {
-                fixCodeError(errorInfo.file, errorInfo.error);
+                fixCodeError(problem);
             }, 2000);
 
             return () => clearTimeout(timeoutId);
         }
-    }, [terminalOutput, isRunning, isFixing, parseError, fixCodeError]);
+    }, [problems, isRunning, isFixing, verification, isCrawling, autoFixChecks, fixCodeError]);
 
     // Listen for runtime errors from preview iframe
     useEffect(() => {
         const handleRuntimeError = (event: MessageEvent) => {
             // Only process runtime error messages
             if (event.data?.type !== 'RUNTIME_ERROR') return;
-            if (!isRunning || fixingRef.current || isFixing) return;
-            if (fixAttempts.current >= MAX_FIX_ATTEMPTS) return;
+            if (!isRunning || !isPrimaryPreviewFrame(previewFramesRef.current, event.source)) return;
 
-            const { message, stack, errorType } = event.data;
-            console.log('🔴 Runtime error received:', { message, stack, errorType });
+            const { message, stack, errorType, frames = [], timestamp = Date.now() } = event.data as {
+                message: string;
+                stack?: string;
+                errorType?: string;
+                frames?: ResolvedFrame[];
+                timestamp?: number;
+            };
+            console.log('🔴 Runtime error received:', { message, stack, errorType, frames });
 
-            // Parse stack trace to find file
-            const { filePath } = parseStackTrace(stack || '');
+            // The reporter resolves frames through source maps; fall back to the raw stack
+            const origin = frames[0];
+            const fallback = parseStackTrace(stack || '');
+            const filePath = origin?.file ?? fallback.filePath;
 
             if (filePath) {
-                // Create error string with context
-                const errorContext = `Runtime Error (${errorType})\n${message}\n\nStack trace:\n${stack}`;
+                const mappedStack = frames.map(f => `    at ${f.file}:${f.line}:${f.column}`).join('\n');
+                // API failures usually surface as vague rejections; name the request that failed
+                const failedRequest = findRelatedFailedRequest(networkRequestsRef.current, timestamp);
+                const diagnostic: Diagnostic = {
+                    file: filePath,
+                    line: origin?.line ?? fallback.lineNumber,
+                    column: origin?.column ?? null,
+                    code: errorType ?? null,
+                    message,
+                    source: 'runtime',
+                    detail: [
+                        mappedStack && `Stack trace (original source positions):\n${mappedStack}`,
+                        stack && `Raw stack trace (positions in transformed modules):\n${stack}`,
+                        failedRequest && `Failed network request just before the error:\n${formatNetworkRequest(failedRequest)}`,
+                    ].filter(Boolean).join('\n\n') || undefined,
+                    excerpt: origin?.excerpt || undefined,
+                };
 
                 setFixLog(prev => [...prev, `🔴 Runtime Error in ${filePath}`]);
+                setRuntimeProblems(prev => prev.some(p => diagnosticKey(p) === diagnosticKey(diagnostic))
+                    ? prev
+                    : [...prev, diagnostic]);
+                recordRuntimeError(diagnostic);
+
+                // Errors during verification are recorded to judge the fix, not fixed on top of it;
+                // errors found by a smoke test go into its report instead
+                if (fixingRef.current || isFixing || verification || isCrawling) return;
+                if (fixAttempts.current >= MAX_FIX_ATTEMPTS) return;
 
                 // Trigger fix with a slight delay
                 setTimeout(() => {
-                    fixCodeError(filePath, errorContext);
+                    fixCodeError(diagnostic);
                 }, 1500);
             } else {
                 console.warn('Could not extract file path from runtime error:', stack);
@@ -203,76 +585,369 @@ function App() {
 
         window.addEventListener('message', handleRuntimeError);
         return () => window.removeEventListener('message', handleRuntimeError);
-    }, [isRunning, isFixing, fixCodeError]);
+    }, [isRunning, isFixing, verification, isCrawling, fixCodeError, recordRuntimeError]);
 
+    // Collect console output forwarded by the preview's reporter
+    useEffect(() => {
+        const handleConsoleMessage = (event: MessageEvent) => {
+            if (event.data?.type !== 'CONSOLE_MESSAGE' || !isPrimaryPreviewFrame(previewFramesRef.current, event.source)) return;
+            const { level, args, timestamp } = event.data as { level: ConsoleLevel; args: SerializedArg[]; timestamp: number };
+            const entry: ConsoleEntry = { id: ++consoleIdRef.current, level, args, timestamp };
+            setConsoleEntries(prev => [...prev.slice(-(MAX_CONSOLE_ENTRIES - 1)), entry]);
 
-    const handleFileUpload = useCallback(async (file: File) => {
-        setIsExtracting(true);
-        setZipName(file.name);
+            // The reporter logs the runtime errors it forwards; those are reported separately
+            const text = args.map(arg => arg.preview).join(' ');
+            if (level === 'error' && !text.startsWith('🔴')) recordConsoleError(text);
+        };
+
+        window.addEventListener('message', handleConsoleMessage);
+        return () => window.removeEventListener('message', handleConsoleMessage);
+    }, [recordConsoleError]);
+
+    // Track fetch/XHR requests; the start and end messages of a request share its id
+    useEffect(() => {
+        const handleNetworkMessage = (event: MessageEvent) => {
+            if (event.data?.type !== 'NETWORK_REQUEST' || !isPrimaryPreviewFrame(previewFramesRef.current, event.source)) return;
+            const update = { ...event.data } as NetworkRequest & { type?: string };
+            delete update.type;
+
+            const current = networkRequestsRef.current;
+            const index = current.findIndex(r => r.id === update.id);
+            const next = index === -1
+                ? [...current.slice(-(MAX_NETWORK_ENTRIES - 1)), update]
+                : current.map((r, i) => i === index ? { ...r, ...update } : r);
+
+            networkRequestsRef.current = next;
+            setNetworkRequests(next);
+        };
+
+        window.addEventListener('message', handleNetworkMessage);
+        return () => window.removeEventListener('message', handleNetworkMessage);
+    }, []);
+
+    const clearNetworkRequests = useCallback(() => {
+        networkRequestsRef.current = [];
+        setNetworkRequests([]);
+    }, []);
+
+
+    const clearPendingSaves = useCallback(() => {
+        saveTimersRef.current.forEach(timer => clearTimeout(timer));
+        saveTimersRef.current.clear();
+        setFileStatus({});
+    }, []);
+
+    // Drop fixes, logs and the container of the current project
+    const resetSession = useCallback(() => {
         setFixCount(0);
         setFixLog([]);
+        updateHistory([]);
+        setShowHistory(false);
+        cancelVerification();
+        setProposals([]);
+        setRuntimeProblems([]);
+        setConsoleEntries([]);
+        clearNetworkRequests();
+        setResolutions({});
+        setStartedResolutions(null);
         fixAttempts.current = 0;
         lastErrorRef.current = '';
+        failedAttemptsRef.current = new Map();
+        fixAbortRef.current?.abort();
+        clearCrawl();
+        setFixQueue([]);
+        clearPendingSaves();
         reset();
+    }, [reset, clearPendingSaves, clearNetworkRequests, updateHistory, cancelVerification, clearCrawl]);
+
+    const handleFileUpload = useCallback(async (project: ProjectImport) => {
+        resetSession();
+        setOpenError(null);
+        setIsExtracting(true);
+        setZipName(project.name);
+        setWorkspaceId(crypto.randomUUID());
 
         try {
-            const extracted = await extractZip(file);
+            const extracted = await project.load();
             setFiles(extracted);
             filesRef.current = extracted;
-
-            const allFiles = flattenFiles(extracted);
-            if (allFiles.length > 0) {
-                const mainFile = allFiles.find(f =>
-                    f.name === 'App.tsx' || f.name === 'App.jsx'
-                ) || allFiles[0];
-                setSelectedFile(mainFile);
-            }
+            originalsRef.current = snapshotContents(extracted);
+            setSelectedPath(findMainFile(extracted)?.path ?? null);
         } catch (err) {
-            console.error('Failed to extract ZIP:', err);
+            console.error(`Failed to import ${project.name}:`, err);
         } finally {
             setIsExtracting(false);
         }
-    }, [reset]);
+    }, [resetSession]);
 
-    const handleStartPreview = useCallback(async () => {
-        if (files.length === 0) return;
+    // Mount the given tree and start the dev server
+    const startPreview = useCallback(async (startFiles: FileNode[], startResolutions: ConflictResolutions) => {
+        if (startFiles.length === 0) return;
 
         fixAttempts.current = 0;
         lastErrorRef.current = '';
+        failedAttemptsRef.current = new Map();
         setFixLog([]);
+        setRuntimeProblems([]);
+        setConsoleEntries([]);
+        clearNetworkRequests();
+        clearCrawl();
+        setFixQueue([]);
 
-        const prefix = findRootPrefix(files);
-        const fsTree = toWebContainerFS(files, prefix);
+        const prefix = findRootPrefix(startFiles);
+        const fsTree = toWebContainerFS(startFiles, prefix);
 
-        await mountFiles(fsTree);
+        setStartedResolutions(startResolutions);
+        await mountFiles(fsTree, { resolutions: startResolutions, projectType: detectProject(startFiles).type });
         await startDevServer();
-    }, [files, mountFiles, startDevServer]);
+    }, [mountFiles, startDevServer, clearNetworkRequests, clearCrawl]);
+
+    const handleStartPreview = useCallback(
+        () => startPreview(files, resolutions),
+        [startPreview, files, resolutions]
+    );
+
+    // Restore a saved workspace and go straight to the running preview
+    const handleOpenWorkspace = useCallback(async (id: string) => {
+        setOpenError(null);
+        setIsExtracting(true);
+        const workspace = await loadWorkspace(id);
+        setIsExtracting(false);
+        if (!workspace) {
+            setOpenError('This project could not be loaded from browser storage');
+            return;
+        }
+
+        resetSession();
+        setWorkspaceId(workspace.id);
+        setZipName(workspace.zipName);
+        setFiles(workspace.files);
+        filesRef.current = workspace.files;
+        originalsRef.current = new Map(Object.entries(workspace.originals));
+        // Verification does not survive a reload, so fixes that were being checked stay unconfirmed
+        updateHistory(workspace.history.map(e => e.status === 'verifying' ? { ...e, status: undefined } : e));
+        setFixCount(toChangelog(workspace.history).length);
+        setResolutions(workspace.resolutions);
+        setSelectedPath(workspace.selectedPath ?? findMainFile(workspace.files)?.path ?? null);
+
+        try {
+            await startPreview(workspace.files, workspace.resolutions);
+        } catch (err) {
+            // The files are open by now, so the preview pane shows the mount error
+            console.error(`Failed to start ${workspace.zipName}:`, err);
+        }
+    }, [resetSession, updateHistory, startPreview]);
 
     const handleReset = useCallback(() => {
         setFiles([]);
-        setSelectedFile(null);
+        setSelectedPath(null);
         setZipName('');
-        setFixCount(0);
-        setFixLog([]);
-        fixAttempts.current = 0;
+        setWorkspaceId(null);
+        resetSession();
+    }, [resetSession]);
+
+    // Save the open project as a workspace once it has been quiet for a moment
+    useEffect(() => {
+        if (!workspaceId || files.length === 0) return;
+        const timer = setTimeout(() => {
+            saveWorkspace({
+                id: workspaceId,
+                zipName,
+                files,
+                history,
+                originals: Object.fromEntries(originalsRef.current),
+                selectedPath,
+                resolutions,
+            }, {
+                name: projectBaseName(zipName) || 'project',
+                fileCount: flattenFiles(files).length,
+                fixCount: toChangelog(history).length,
+            }).catch(err => {
+                const message = err instanceof Error ? err.message : String(err);
+                setFixLog(prev => [...prev, `⚠️ Could not save the workspace: ${message}`]);
+            });
+        }, WORKSPACE_SAVE_DELAY_MS);
+        return () => clearTimeout(timer);
+    }, [workspaceId, zipName, files, history, selectedPath, resolutions]);
+
+    const handleDownload = useCallback(async () => {
+        if (files.length === 0) return;
+        setIsExporting(true);
+
+        try {
+            const baseName = projectBaseName(zipName) || 'project';
+            const blob = await createZip(files, {
+                fixes: includeFixesMd ? fixChangelog : undefined,
+                projectName: baseName,
+            });
+
+            const url = URL.createObjectURL(blob);
+            const link = document.createElement('a');
+            link.href = url;
+            link.download = `${baseName}-fixed.zip`;
+            link.click();
+            // Revoking right away can cancel the download in some browsers
+            setTimeout(() => URL.revokeObjectURL(url), 1000);
+        } catch (err) {
+            console.error('Failed to export ZIP:', err);
+        } finally {
+            setIsExporting(false);
+        }
+    }, [files, zipName, includeFixesMd, fixChangelog]);
+
+    const handleAcceptProposal = useCallback(async (proposal: FixProposal, patches: FilePatch[]) => {
+        setProposals(prev => prev.filter(p => p.id !== proposal.id));
+        await applyFix(patches, proposal.error, proposal.diagnostic, proposal.cacheKey);
+    }, [applyFix]);
+
+    const handleRejectProposal = useCallback((proposal: FixProposal) => {
+        setProposals(prev => prev.filter(p => p.id !== proposal.id));
+        setFixLog(prev => [...prev, `🚫 Rejected fix: ${proposal.path}`]);
+    }, []);
+
+    const getCurrentContent = useCallback(
+        (path: string) => flattenFiles(files).find(f => f.path === path)?.content,
+        [files]
+    );
+
+    const handleSelectProblem = useCallback((problem: Diagnostic) => {
+        const file = findDiagnosticFile(filesRef.current, problem.file);
+        if (file) setSelectedPath(file.path);
+    }, []);
+
+    // Manual fixes retry even a problem the auto-fixer already tried
+    const handleFixProblem = useCallback((problem: Diagnostic) => {
         lastErrorRef.current = '';
-        reset();
-    }, [reset]);
+        fixCodeError(problem, true);
+    }, [fixCodeError]);
+
+    const handleQueueFixes = useCallback((queued: Diagnostic[]) => {
+        setFixQueue(prev => [
+            ...prev,
+            ...queued.filter(d => !prev.some(p => diagnosticKey(p) === diagnosticKey(d))),
+        ]);
+    }, []);
+
+    // Work through queued fixes once the previous fix has been written and verified
+    useEffect(() => {
+        if (fixQueue.length === 0 || !isRunning || isFixing || verification || isCrawling) return;
+
+        const timeoutId = setTimeout(() => {
+            const [next, ...rest] = fixQueue;
+            setFixQueue(rest);
+            handleFixProblem(next);
+        }, 1000);
+        return () => clearTimeout(timeoutId);
+    }, [fixQueue, isRunning, isFixing, verification, isCrawling, handleFixProblem]);
 
     const handleSelectFile = useCallback((file: FileNode) => {
         if (file.type === 'file') {
-            setSelectedFile(file);
+            setSelectedPath(file.path);
         }
     }, []);
 
-    const totalFiles = flattenFiles(files).length;
-    const hasActiveError = terminalOutput.slice(-20).some(line =>
-        line.includes('Failed to resolve') ||
-        line.includes('Cannot find module') ||
-        line.includes('is not defined') ||
-        line.includes('Error')
+    // Hand edits: update the tree right away, write to the container once typing settles
+    const handleEditorChange = useCallback((path: string, content: string) => {
+        setFiles(prev => updateFileContent(prev, path, content));
+        if (!isRunning) return;
+
+        setFileStatus(prev => ({ ...prev, [path]: 'dirty' }));
+
+        const timers = saveTimersRef.current;
+        const pending = timers.get(path);
+        if (pending) clearTimeout(pending);
+
+        timers.set(path, setTimeout(async () => {
+            timers.delete(path);
+            setFileStatus(prev => ({ ...prev, [path]: 'saving' }));
+            const saved = await updateFile(toContainerPath(path, findRootPrefix(filesRef.current)), content);
+            const before = latestContent(historyRef.current, originalsRef.current, path);
+            if (saved && before !== undefined && before !== content) {
+                updateHistory(recordManualEdit(historyRef.current, path, before, content));
+            }
+            setFileStatus(prev => {
+                // A newer edit may have arrived while this write was in flight
+                if (timers.has(path)) return prev;
+                return { ...prev, [path]: saved ? 'saved' : 'dirty' };
+            });
+        }, EDIT_SAVE_DELAY_MS));
+    }, [isRunning, updateFile, updateHistory]);
+
+    // Restore a file to before this change, undoing any later changes to it as well
+    const handleRevertEntry = useCallback(async (entry: FixHistoryEntry) => {
+        const undone = entriesUndoneBy(historyRef.current, entry.id);
+        const current = flattenFiles(filesRef.current).find(f => f.path === entry.path)?.content ?? entry.after;
+
+        setIsReverting(true);
+        const ok = await restoreContents(new Map([[entry.path, entry.before]]));
+        setIsReverting(false);
+        if (!ok) return;
+
+        updateHistory([
+            ...markReverted(historyRef.current, new Set(undone.map(e => e.id))),
+            createHistoryEntry({ path: entry.path, before: current, after: entry.before, error: null, source: 'revert' }),
+        ]);
+        invalidateCachedFixes(undone.map(e => e.cacheKey));
+        setFixLog(prev => [...prev, `↩️ Reverted: ${entry.path}`]);
+    }, [restoreContents, updateHistory]);
+
+    // Restore every changed file to its uploaded content
+    const handleRevertAll = useCallback(async () => {
+        const currentByPath = snapshotContents(filesRef.current);
+        const changed = new Map([...originalsRef.current].filter(([path, original]) =>
+            currentByPath.has(path) && currentByPath.get(path) !== original));
+        if (changed.size === 0) return;
+
+        setIsReverting(true);
+        const ok = await restoreContents(changed);
+        setIsReverting(false);
+        if (!ok) return;
+
+        invalidateCachedFixes(historyRef.current.filter(e => !e.revertedAt).map(e => e.cacheKey));
+        updateHistory([
+            ...markReverted(historyRef.current, new Set(historyRef.current.map(e => e.id))),
+            ...[...changed].map(([path, original]) => createHistoryEntry({
+                path,
+                before: currentByPath.get(path) ?? '',
+                after: original,
+                error: null,
+                source: 'revert',
+            })),
+        ]);
+        setFixLog(prev => [...prev, `↩️ Reverted ${changed.size} file(s) to the uploaded ZIP`]);
+    }, [restoreContents, updateHistory]);
+
+    // Drop pending writes on unmount
+    useEffect(() => {
+        const timers = saveTimersRef.current;
+        return () => timers.forEach(timer => clearTimeout(timer));
+    }, []);
+
+    // Project dependencies (layered over its template's) that clash with the pre-installed base
+    const dependencyConflicts = useMemo(() => {
+        const packagePath = `${findRootPrefix(files) || ''}package.json`;
+        const projectPackage = parsePackageJson(flattenFiles(files).find(f => f.path === packagePath)?.content);
+        if (!projectPackage) return [];
+        const template = TEMPLATES[detectedProject.type];
+        return findDependencyConflicts(mergePackageJson(template.packageJson, projectPackage), BASE_PACKAGE_JSON);
+    }, [files, detectedProject]);
+
+    const handleResolveConflict = useCallback((name: string, choice: 'base' | 'project') => {
+        setResolutions(prev => ({ ...prev, [name]: choice }));
+    }, []);
+
+    const resolutionsChanged = isRunning && startedResolutions !== null &&
+        dependencyConflicts.some(c => (resolutions[c.name] ?? 'base') !== (startedResolutions[c.name] ?? 'base'));
+
+    const selectedFile = useMemo(
+        () => flattenFiles(files).find(f => f.path === selectedPath) || null,
+        [files, selectedPath]
     );
 
+    const totalFiles = flattenFiles(files).length;
+    const errorCount = problems.filter(p => p.severity !== 'warning').length;
+    const hasActiveError = errorCount > 0;
+
     return (
         <div className="h-screen w-screen bg-zinc-950 text-white flex flex-col overflow-hidden">
             {/* Header */}
@@ -304,10 +979,12 @@ function App() {
                     {isPreWarmed && !isPreWarming && (
                         <div className="flex items-center gap-2 px-3 py-1.5 rounded-full text-xs font-medium bg-emerald-500/10 text-emerald-400 border border-emerald-500/20">
                             <Database className="w-3.5 h-3.5" />
-                            Ready
+                            {depsSource === 'snapshot' ? 'Ready (cached)' : 'Ready'}
                         </div>
                     )}
 
+                    <CacheManager refreshKey={isPreWarmed} />
+
                     {isFixing && (
                         <div className="flex items-center gap-2 px-3 py-1.5 rounded-full text-xs font-medium bg-purple-500/10 text-purple-400 border border-purple-500/20 animate-pulse">
                             <Loader2 className="w-3.5 h-3.5 animate-spin" />
@@ -315,10 +992,27 @@ function App() {
                         </div>
                     )}
 
+                    {verification && !isFixing && (
+                        <div
+                            className="flex items-center gap-2 px-3 py-1.5 rounded-full text-xs font-medium bg-purple-500/10 text-purple-400 border border-purple-500/20"
+                            title="Watching the preview for the original error or new ones before keeping the fix"
+                        >
+                            <Loader2 className="w-3.5 h-3.5 animate-spin" />
+                            {verificationPhase === 'waiting' ? 'Waiting for reload...' : 'Verifying fix...'}
+                        </div>
+                    )}
+
                     {hasActiveError && !isFixing && (
                         <div className="flex items-center gap-2 px-3 py-1.5 rounded-full text-xs font-medium bg-red-500/10 text-red-400 border border-red-500/20">
                             <AlertTriangle className="w-3.5 h-3.5" />
-                            Error detected
+                            {errorCount === 1 ? '1 problem' : `${errorCount} problems`}
+                        </div>
+                    )}
+
+                    {proposals.length > 0 && (
+                        <div className="flex items-center gap-2 px-3 py-1.5 rounded-full text-xs font-medium bg-purple-500/10 text-purple-400 border border-purple-500/20">
+                            <GitCompare className="w-3.5 h-3.5" />
+                            {proposals.length} to review
                         </div>
                     )}
 
@@ -338,9 +1032,49 @@ function App() {
                             <span className="px-2 py-0.5 text-xs text-emerald-400 bg-emerald-500/10 rounded-full">
                                 {totalFiles} files
                             </span>
+                            <span
+                                className="flex items-center gap-1 px-2 py-0.5 text-xs text-blue-300 bg-blue-500/10 rounded-full"
+                                title={detectedProject.reasons.join('\n')}
+                            >
+                                <Layers className="w-3 h-3" />
+                                {TEMPLATES[detectedProject.type].label}
+                            </span>
                         </div>
                     )}
 
+                    {files.length > 0 && (
+                        <button
+                            onClick={() => setShowHistory(!showHistory)}
+                            className={`flex items-center gap-2 px-4 py-2.5 font-medium rounded-xl transition-all border ${showHistory
+                                ? 'bg-amber-500/15 text-amber-300 border-amber-500/30'
+                                : 'bg-zinc-800 hover:bg-zinc-700 text-zinc-300 border-zinc-700/50'
+                                }`}
+                            title="Browse and revert recorded changes"
+                        >
+                            <History className="w-4 h-4" />
+                            History
+                            {history.length > 0 && (
+                                <span className="px-1.5 py-0.5 text-xs bg-zinc-700/80 rounded-full">{history.length}</span>
+                            )}
+                        </button>
+                    )}
+
+                    {files.length > 0 && (
+                        <button
+                            onClick={() => setAutoApplyFixes(!autoApplyFixes)}
+                            className={`flex items-center gap-2 px-4 py-2.5 font-medium rounded-xl transition-all border ${autoApplyFixes
+                                ? 'bg-zinc-800 hover:bg-zinc-700 text-zinc-300 border-zinc-700/50'
+                                : 'bg-purple-500/15 hover:bg-purple-500/25 text-purple-300 border-purple-500/30'
+                                }`}
+                            title={autoApplyFixes
+                                ? 'AI fixes are applied automatically. Click to review each fix first.'
+                                : 'AI fixes wait for review. Click to apply them automatically.'}
+                        >
+                            {autoApplyFixes ? <Zap className="w-4 h-4" /> : <ShieldCheck className="w-4 h-4" />}
+                            {autoApplyFixes ? 'Auto-apply' : 'Review fixes'}
+                        </button>
+                    )}
+
                     {files.length > 0 && !isRunning && (
                         <button
                             onClick={handleStartPreview}
@@ -352,6 +1086,34 @@ function App() {
                         </button>
                     )}
 
+                    {files.length > 0 && (
+                        <div className="flex items-center bg-zinc-800 rounded-xl border border-zinc-700/50">
+                            <button
+                                onClick={handleDownload}
+                                disabled={isExporting}
+                                className="flex items-center gap-2 px-4 py-2.5 hover:bg-zinc-700 disabled:text-zinc-500 text-zinc-300 font-medium rounded-xl transition-all"
+                                title="Download the current project as a ZIP"
+                            >
+                                {isExporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+                                Download project
+                            </button>
+                            {fixChangelog.length > 0 && (
+                                <label
+                                    className="flex items-center gap-1.5 pr-3 text-xs text-zinc-400 cursor-pointer select-none"
+                                    title="Add a FIXES.md changelog of the AI fixes"
+                                >
+                                    <input
+                                        type="checkbox"
+                                        checked={includeFixesMd}
+                                        onChange={(e) => setIncludeFixesMd(e.target.checked)}
+                                        className="accent-emerald-500"
+                                    />
+                                    FIXES.md
+                                </label>
+                            )}
+                        </div>
+                    )}
+
                     {files.length > 0 && (
                         <button
                             onClick={handleReset}
@@ -382,6 +1144,13 @@ function App() {
                 </div>
             )}
 
+            <DependencyConflicts
+                conflicts={dependencyConflicts}
+                resolutions={resolutions}
+                onResolve={handleResolveConflict}
+                onRestart={resolutionsChanged ? handleStartPreview : undefined}
+            />
+
             {/* Main content */}
             <div className="flex-1 flex overflow-hidden">
                 {files.length === 0 ? (
@@ -390,12 +1159,14 @@ function App() {
                             <ZipUpload onUpload={handleFileUpload} isLoading={isExtracting} />
                             <div className="mt-8 text-center">
                                 <p className="text-zinc-400 text-lg">
-                                    Upload a React project ZIP file
+                                    Upload a React, Vue, Svelte, Next.js or static HTML project
                                 </p>
                                 <p className="text-zinc-600 text-sm mt-2">
                                     Start Preview → Errors detected → AI auto-fixes → Preview updates
                                 </p>
                             </div>
+                            <RecentProjects onOpen={handleOpenWorkspace} isLoading={isExtracting} />
+                            {openError && <p className="mt-3 text-sm text-red-400 text-center">{openError}</p>}
                         </div>
                     </div>
                 ) : (
@@ -407,14 +1178,60 @@ function App() {
                             <div className="flex-1 overflow-hidden">
                                 <FileExplorer
                                     files={files}
-                                    selectedFile={selectedFile?.path || null}
+                                    selectedFile={selectedPath}
                                     onSelectFile={handleSelectFile}
+                                    fileStatus={fileStatus}
+                                    problemCounts={problemCounts}
                                 />
                             </div>
                         </div>
 
-                        <div className="flex-1 border-r border-zinc-800 min-w-0">
-                            <CodeEditor file={selectedFile} />
+                        <div className="flex-1 flex flex-col border-r border-zinc-800 min-w-0">
+                            <div className="flex-1 min-h-0">
+                                {streamingFix?.requested ? (
+                                    <FixStreamPanel
+                                        path={streamingFix.preview.path ?? streamingFix.path}
+                                        code={streamingFix.preview.code}
+                                        status={streamingFix.status}
+                                        onCancel={handleCancelFix}
+                                    />
+                                ) : proposals.length > 0 ? (
+                                    <FixReviewPanel
+                                        proposals={proposals}
+                                        currentContent={getCurrentContent}
+                                        onAccept={handleAcceptProposal}
+                                        onReject={handleRejectProposal}
+                                    />
+                                ) : showHistory ? (
+                                    <FixHistoryPanel
+                                        history={history}
+                                        onRevert={handleRevertEntry}
+                                        onRevertAll={handleRevertAll}
+                                        onClose={() => setShowHistory(false)}
+                                        isBusy={isReverting}
+                                    />
+                                ) : selectedFile?.binary ? (
+                                    <AssetViewer file={selectedFile} />
+                                ) : (
+                                    <CodeEditor
+                                        file={selectedFile}
+                                        saveStatus={selectedPath ? fileStatus[selectedPath] : undefined}
+                                        onChange={handleEditorChange}
+                                        markers={selectedPath ? problemsByPath.get(selectedPath) : undefined}
+                                    />
+                                )}
+                            </div>
+                            {/* Auto-fixes stream below whatever is open, so typing in the editor isn't interrupted */}
+                            {streamingFix && !streamingFix.requested && (
+                                <div className="h-56 flex-shrink-0 border-t border-zinc-800">
+                                    <FixStreamPanel
+                                        path={streamingFix.preview.path ?? streamingFix.path}
+                                        code={streamingFix.preview.code}
+                                        status={streamingFix.status}
+                                        onCancel={handleCancelFix}
+                                    />
+                                </div>
+                            )}
                         </div>
 
                         <div className="w-[45%] flex-shrink-0">
@@ -425,6 +1242,59 @@ function App() {
                                 isRunning={isRunning}
                                 error={error}
                                 terminalOutput={terminalOutput}
+                                spawnShell={spawnShell}
+                                routes={routes}
+                                framesRef={previewFramesRef}
+                                panels={[{
+                                    id: 'console',
+                                    label: 'Console',
+                                    icon: ScrollText,
+                                    count: consoleEntries.filter(e => e.level === 'error').length,
+                                    content: <ConsolePanel entries={consoleEntries} onClear={() => setConsoleEntries([])} />,
+                                }, {
+                                    id: 'network',
+                                    label: 'Network',
+                                    icon: Network,
+                                    count: networkRequests.filter(isFailedRequest).length,
+                                    content: <NetworkPanel requests={networkRequests} onClear={clearNetworkRequests} />,
+                                }, {
+                                    id: 'problems',
+                                    label: 'Problems',
+                                    icon: CircleAlert,
+                                    count: problems.length,
+                                    content: (
+                                        <ProblemsPanel
+                                            problems={problems}
+                                            onSelect={handleSelectProblem}
+                                            onFix={handleFixProblem}
+                                            isFixing={isFixing || verification !== null}
+                                            checks={hasTypeScript || hasEslint ? {
+                                                isChecking,
+                                                autoFix: autoFixChecks,
+                                                onToggleAutoFix: setAutoFixChecks,
+                                            } : undefined}
+                                        />
+                                    ),
+                                }, {
+                                    id: 'routes',
+                                    label: 'Routes',
+                                    icon: RouteIcon,
+                                    count: crawl?.routes.filter(r => r.status === 'failed' || r.status === 'unreachable').length,
+                                    content: (
+                                        <RouteHealthPanel
+                                            crawl={crawl}
+                                            paths={crawlPaths}
+                                            canStart={isRunning && !!previewUrl && !isFixing && verification === null}
+                                            onStart={({ clickElements }) => startCrawl(crawlPaths, { clickElements })}
+                                            onCancel={cancelCrawl}
+                                            onOpenRoute={path => navigatePreview({ action: 'go', path })}
+                                            onFix={handleFixProblem}
+                                            onFixAll={handleQueueFixes}
+                                            queuedFixes={fixQueue.length}
+                                            isFixing={isFixing || verification !== null}
+                                        />
+                                    ),
+                                }]}
                             />
                         </div>
                     </>
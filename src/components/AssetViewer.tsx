@@ -0,0 +1,122 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { FileImage, FileType, File as FileIcon } from 'lucide-react';
+import type { FileNode } from '../utils/fileUtils';
+import { getImageMimeType, isFontPath, formatBytes } from '../utils/fileUtils';
+
+interface AssetViewerProps {
+    file: FileNode;
+}
+
+const FONT_SAMPLE = 'The quick brown fox jumps over the lazy dog';
+
+const ImagePreview = ({ file, mimeType }: { file: FileNode; mimeType: string }) => {
+    const [dimensions, setDimensions] = useState<string | null>(null);
+    const imageRef = useRef<HTMLImageElement>(null);
+
+    // Created and revoked by the same effect, so StrictMode's remount gets a fresh URL
+    useEffect(() => {
+        const url = URL.createObjectURL(new Blob([(file.binary ?? '') as BlobPart], { type: mimeType }));
+        if (imageRef.current) imageRef.current.src = url;
+        return () => URL.revokeObjectURL(url);
+    }, [file, mimeType]);
+
+    return (
+        <div className="flex flex-col items-center gap-4">
+            <div className="p-4 rounded-xl border border-zinc-800 bg-[repeating-conic-gradient(#27272a_0%_25%,#18181b_0%_50%)] bg-[length:20px_20px]">
+                <img
+                    ref={imageRef}
+                    alt={file.name}
+                    className="max-w-full max-h-[60vh] object-contain"
+                    onLoad={(e) => setDimensions(`${e.currentTarget.naturalWidth} × ${e.currentTarget.naturalHeight}`)}
+                />
+            </div>
+            {dimensions && <span className="text-xs text-zinc-500">{dimensions}</span>}
+        </div>
+    );
+};
+
+const FontPreview = ({ file }: { file: FileNode }) => {
+    const family = useMemo(() => `preview-${file.path.replace(/[^\w-]/g, '_')}`, [file.path]);
+    const [status, setStatus] = useState<'loading' | 'ready' | 'error'>('loading');
+
+    useEffect(() => {
+        if (!file.binary) return;
+        const face = new FontFace(family, file.binary as BufferSource);
+        let cancelled = false;
+
+        face.load()
+            .then(loaded => {
+                document.fonts.add(loaded);
+                if (!cancelled) setStatus('ready');
+            })
+            .catch(() => {
+                if (!cancelled) setStatus('error');
+            });
+
+        return () => {
+            cancelled = true;
+            document.fonts.delete(face);
+        };
+    }, [file, family]);
+
+    if (status === 'error') {
+        return <p className="text-red-400 text-sm">This font could not be loaded by the browser</p>;
+    }
+
+    return (
+        <div className="w-full max-w-2xl space-y-4" style={{ fontFamily: `'${family}', monospace` }}>
+            {[48, 32, 20, 14].map(size => (
+                <p key={size} className="text-zinc-200 truncate" style={{ fontSize: size }}>
+                    {FONT_SAMPLE}
+                </p>
+            ))}
+            <p className="text-zinc-400 text-lg break-all">
+                ABCDEFGHIJKLMNOPQRSTUVWXYZ abcdefghijklmnopqrstuvwxyz 0123456789
+            </p>
+        </div>
+    );
+};
+
+export const AssetViewer = ({ file }: AssetViewerProps) => {
+    const mimeType = getImageMimeType(file.path);
+    const isFont = isFontPath(file.path);
+    const size = file.binary?.byteLength ?? 0;
+    const Icon = mimeType ? FileImage : isFont ? FileType : FileIcon;
+
+    return (
+        <div className="flex flex-col h-full bg-zinc-950">
+            {/* File header */}
+            <div className="flex items-center justify-between px-4 py-3 bg-zinc-900 border-b border-zinc-800">
+                <div className="flex items-center gap-3">
+                    <div className="p-1.5 rounded-lg bg-purple-500/10">
+                        <Icon className="w-4 h-4 text-purple-400" />
+                    </div>
+                    <span className="text-sm text-zinc-300 font-mono font-medium">{file.path}</span>
+                    <span className="px-2 py-0.5 text-xs text-zinc-500 bg-zinc-800 rounded-md uppercase">
+                        {file.path.split('.').pop()}
+                    </span>
+                </div>
+                <span className="text-xs text-zinc-500">{formatBytes(size)}</span>
+            </div>
+
+            {/* Preview */}
+            <div className="flex-1 flex items-center justify-center p-8 overflow-auto">
+                {mimeType ? (
+                    <ImagePreview file={file} mimeType={mimeType} />
+                ) : isFont ? (
+                    <FontPreview file={file} />
+                ) : (
+                    <div className="flex flex-col items-center text-center">
+                        <div className="p-6 rounded-2xl bg-zinc-900/50 border border-zinc-800 mb-6">
+                            <FileIcon className="w-14 h-14 text-zinc-700" />
+                        </div>
+                        <p className="text-zinc-400 text-lg font-medium">Binary file</p>
+                        <p className="text-zinc-600 text-sm mt-2">
+                            {formatBytes(size)} — mounted into the container as-is
+                        </p>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
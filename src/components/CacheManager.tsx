@@ -0,0 +1,117 @@
+import { useCallback, useEffect, useState } from 'react';
+import { HardDrive, Trash2, X, Loader2 } from 'lucide-react';
+import type { SnapshotInfo } from '../utils/cache';
+import { listSnapshots, deleteSnapshot, clearSnapshots, getStorageEstimate } from '../utils/cache';
+import { formatBytes } from '../utils/fileUtils';
+
+interface CacheManagerProps {
+    // Bumped by the parent whenever a snapshot may have been written
+    refreshKey?: unknown;
+}
+
+const loadCacheState = () => Promise.all([listSnapshots(), getStorageEstimate()]);
+
+export const CacheManager = ({ refreshKey }: CacheManagerProps) => {
+    const [isOpen, setIsOpen] = useState(false);
+    const [snapshots, setSnapshots] = useState<SnapshotInfo[]>([]);
+    const [usage, setUsage] = useState<{ usage: number; quota: number } | null>(null);
+    const [isBusy, setIsBusy] = useState(false);
+
+    const refresh = useCallback(async () => {
+        const [list, estimate] = await loadCacheState();
+        setSnapshots(list);
+        setUsage(estimate);
+    }, []);
+
+    useEffect(() => {
+        let cancelled = false;
+        loadCacheState().then(([list, estimate]) => {
+            if (cancelled) return;
+            setSnapshots(list);
+            setUsage(estimate);
+        });
+        return () => { cancelled = true; };
+    }, [refreshKey, isOpen]);
+
+    const handleDelete = async (key: string) => {
+        setIsBusy(true);
+        await deleteSnapshot(key);
+        await refresh();
+        setIsBusy(false);
+    };
+
+    const handleClear = async () => {
+        setIsBusy(true);
+        await clearSnapshots();
+        await refresh();
+        setIsBusy(false);
+    };
+
+    const totalSize = snapshots.reduce((sum, s) => sum + s.size, 0);
+
+    return (
+        <div className="relative">
+            <button
+                onClick={() => setIsOpen(!isOpen)}
+                className="flex items-center gap-2 px-3 py-1.5 rounded-full text-xs font-medium bg-zinc-800/80 text-zinc-400 hover:text-zinc-200 border border-zinc-700/50 transition-colors"
+                title="Cached node_modules snapshots"
+            >
+                <HardDrive className="w-3.5 h-3.5" />
+                {snapshots.length > 0 ? formatBytes(totalSize) : 'No cache'}
+            </button>
+
+            {isOpen && (
+                <div className="absolute left-0 top-full mt-2 w-80 z-50 bg-zinc-900 border border-zinc-700 rounded-xl shadow-2xl">
+                    <div className="flex items-center justify-between px-4 py-3 border-b border-zinc-800">
+                        <span className="text-sm font-semibold text-zinc-200">Dependency cache</span>
+                        <button onClick={() => setIsOpen(false)} className="text-zinc-500 hover:text-zinc-300">
+                            <X className="w-4 h-4" />
+                        </button>
+                    </div>
+
+                    <div className="max-h-64 overflow-y-auto">
+                        {snapshots.length === 0 ? (
+                            <p className="px-4 py-6 text-center text-sm text-zinc-500">
+                                No snapshots yet. One is saved after the first base install.
+                            </p>
+                        ) : (
+                            snapshots.map(s => (
+                                <div key={s.key} className="flex items-center justify-between px-4 py-2.5 border-b border-zinc-800/60">
+                                    <div className="min-w-0">
+                                        <p className="text-sm text-zinc-300 truncate">{s.label}</p>
+                                        <p className="text-xs text-zinc-500">
+                                            {formatBytes(s.size)} · used {new Date(s.lastUsedAt).toLocaleString()}
+                                        </p>
+                                        <p className="text-[10px] text-zinc-600 font-mono">{s.key}</p>
+                                    </div>
+                                    <button
+                                        onClick={() => handleDelete(s.key)}
+                                        disabled={isBusy}
+                                        className="p-1.5 rounded-lg text-zinc-500 hover:text-red-400 hover:bg-red-500/10 transition-colors"
+                                        title="Evict this snapshot"
+                                    >
+                                        <Trash2 className="w-4 h-4" />
+                                    </button>
+                                </div>
+                            ))
+                        )}
+                    </div>
+
+                    <div className="flex items-center justify-between px-4 py-3">
+                        <span className="text-xs text-zinc-500">
+                            {usage ? `Storage: ${formatBytes(usage.usage)} of ${formatBytes(usage.quota)}` : ''}
+                        </span>
+                        <button
+                            onClick={handleClear}
+                            disabled={isBusy || snapshots.length === 0}
+                            className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs bg-zinc-800 hover:bg-red-500/20 disabled:opacity-50 text-zinc-400 hover:text-red-300 transition-colors"
+                        >
+                            {isBusy ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Trash2 className="w-3.5 h-3.5" />}
+                            Clear all
+                        </button>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
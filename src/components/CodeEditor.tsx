@@ -1,15 +1,48 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import Editor from '@monaco-editor/react';
-import { FileCode, Copy, Check, Code2 } from 'lucide-react';
-import type { FileNode } from '../utils/fileUtils';
+import type { Monaco } from '@monaco-editor/react';
+import { FileCode, Copy, Check, Code2, Loader2 } from 'lucide-react';
+import type { FileNode, FileSaveStatus } from '../utils/fileUtils';
 import { getLanguage } from '../utils/fileUtils';
+import type { Diagnostic } from '../utils/diagnostics';
+
+const MARKER_OWNER = 'preview-diagnostics';
 
 interface CodeEditorProps {
     file: FileNode | null;
+    saveStatus?: FileSaveStatus;
+    onChange?: (path: string, content: string) => void;
+    // Problems in this file, shown as squiggles
+    markers?: Diagnostic[];
 }
 
-export const CodeEditor = ({ file }: CodeEditorProps) => {
+export const CodeEditor = ({ file, saveStatus, onChange, markers }: CodeEditorProps) => {
     const [copied, setCopied] = useState(false);
+    const [monaco, setMonaco] = useState<Monaco | null>(null);
+    const path = file?.path;
+
+    useEffect(() => {
+        if (!monaco || !path) return;
+        const model = monaco.editor.getModel(monaco.Uri.parse(path));
+        if (!model) return;
+
+        monaco.editor.setModelMarkers(model, MARKER_OWNER, (markers ?? []).map(d => {
+            const line = Math.min(Math.max(d.line ?? 1, 1), model.getLineCount());
+            const column = d.column ?? 1;
+            // Underline the word at the reported column, or the whole line without one
+            const word = d.column !== null ? model.getWordAtPosition({ lineNumber: line, column }) : null;
+            return {
+                severity: d.severity === 'warning' ? monaco.MarkerSeverity.Warning : monaco.MarkerSeverity.Error,
+                message: d.message,
+                source: d.source,
+                code: d.code ?? undefined,
+                startLineNumber: line,
+                startColumn: word?.startColumn ?? column,
+                endLineNumber: line,
+                endColumn: word?.endColumn ?? (d.column !== null ? column + 1 : model.getLineMaxColumn(line)),
+            };
+        }));
+    }, [monaco, path, markers, file?.content]);
 
     const handleCopy = () => {
         if (file?.content) {
@@ -45,6 +78,24 @@ export const CodeEditor = ({ file }: CodeEditorProps) => {
                     <span className="px-2 py-0.5 text-xs text-zinc-500 bg-zinc-800 rounded-md uppercase">
                         {getLanguage(file.path)}
                     </span>
+                    {saveStatus === 'dirty' && (
+                        <span className="flex items-center gap-1.5 text-xs text-amber-400">
+                            <span className="w-2 h-2 bg-amber-400 rounded-full" />
+                            Unsaved
+                        </span>
+                    )}
+                    {saveStatus === 'saving' && (
+                        <span className="flex items-center gap-1.5 text-xs text-blue-400">
+                            <Loader2 className="w-3 h-3 animate-spin" />
+                            Saving...
+                        </span>
+                    )}
+                    {saveStatus === 'saved' && (
+                        <span className="flex items-center gap-1.5 text-xs text-emerald-400">
+                            <Check className="w-3 h-3" />
+                            Saved
+                        </span>
+                    )}
                 </div>
                 <button
                     onClick={handleCopy}
@@ -69,11 +120,14 @@ export const CodeEditor = ({ file }: CodeEditorProps) => {
             <div className="flex-1">
                 <Editor
                     height="100%"
+                    path={file.path}
                     language={getLanguage(file.path)}
                     value={file.content || ''}
                     theme="vs-dark"
+                    onChange={(value) => onChange?.(file.path, value ?? '')}
+                    onMount={(_editor, monacoInstance) => setMonaco(monacoInstance)}
                     options={{
-                        readOnly: true,
+                        readOnly: !onChange,
                         minimap: { enabled: false },
                         fontSize: 14,
                         lineNumbers: 'on',
@@ -0,0 +1,125 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { Ban, Search } from 'lucide-react';
+import type { ConsoleEntry, ConsoleLevel, SerializedArg } from '../utils/errorReporter';
+
+interface ConsolePanelProps {
+    entries: ConsoleEntry[];
+    onClear: () => void;
+}
+
+const LEVELS: ConsoleLevel[] = ['log', 'info', 'warn', 'error', 'debug'];
+
+const LEVEL_STYLES: Record<ConsoleLevel, string> = {
+    log: 'text-zinc-300',
+    info: 'text-blue-300',
+    warn: 'text-amber-300 bg-amber-500/5',
+    error: 'text-red-300 bg-red-500/5',
+    debug: 'text-zinc-500',
+};
+
+const formatTime = (timestamp: number) =>
+    new Date(timestamp).toLocaleTimeString([], { hour12: false }) + `.${String(timestamp % 1000).padStart(3, '0')}`;
+
+const ConsoleArg = ({ arg }: { arg: SerializedArg }) => {
+    if (!arg.detail) {
+        return <span className={arg.type === 'string' ? '' : 'text-purple-300'}>{arg.preview}</span>;
+    }
+    return (
+        <details className="inline-block align-top">
+            <summary className="cursor-pointer text-purple-300 marker:text-zinc-600">{arg.preview}</summary>
+            <pre className="mt-1 p-2 rounded bg-zinc-900 text-zinc-400 whitespace-pre-wrap">{arg.detail}</pre>
+        </details>
+    );
+};
+
+export const ConsolePanel = ({ entries, onClear }: ConsolePanelProps) => {
+    const [enabledLevels, setEnabledLevels] = useState<Set<ConsoleLevel>>(() => new Set(LEVELS));
+    const [query, setQuery] = useState('');
+    const listRef = useRef<HTMLDivElement>(null);
+
+    const visible = useMemo(() => {
+        const needle = query.trim().toLowerCase();
+        return entries.filter(entry =>
+            enabledLevels.has(entry.level) &&
+            (!needle || entry.args.some(arg => arg.preview.toLowerCase().includes(needle)))
+        );
+    }, [entries, enabledLevels, query]);
+
+    const countByLevel = useMemo(() => {
+        const counts: Partial<Record<ConsoleLevel, number>> = {};
+        for (const entry of entries) counts[entry.level] = (counts[entry.level] ?? 0) + 1;
+        return counts;
+    }, [entries]);
+
+    // Auto-scroll to the newest message
+    useEffect(() => {
+        if (listRef.current) {
+            listRef.current.scrollTop = listRef.current.scrollHeight;
+        }
+    }, [visible]);
+
+    const toggleLevel = (level: ConsoleLevel) => {
+        setEnabledLevels(prev => {
+            const next = new Set(prev);
+            if (next.has(level)) next.delete(level);
+            else next.add(level);
+            return next;
+        });
+    };
+
+    return (
+        <div className="flex flex-col h-full text-xs">
+            <div className="flex items-center gap-2 px-3 py-1.5 border-b border-zinc-800/60">
+                <div className="flex items-center gap-1.5 flex-1 px-2 py-1 rounded-md bg-zinc-900 border border-zinc-800">
+                    <Search className="w-3 h-3 text-zinc-600" />
+                    <input
+                        value={query}
+                        onChange={(e) => setQuery(e.target.value)}
+                        placeholder="Filter"
+                        className="flex-1 bg-transparent outline-none text-zinc-300 placeholder:text-zinc-600"
+                    />
+                </div>
+                {LEVELS.map(level => (
+                    <button
+                        key={level}
+                        onClick={() => toggleLevel(level)}
+                        className={`px-2 py-0.5 rounded-md transition-colors ${enabledLevels.has(level)
+                            ? 'bg-zinc-800 text-zinc-200'
+                            : 'text-zinc-600 hover:text-zinc-400'
+                            }`}
+                    >
+                        {level}
+                        {countByLevel[level] ? <span className="ml-1 text-zinc-500">{countByLevel[level]}</span> : null}
+                    </button>
+                ))}
+                <button
+                    onClick={onClear}
+                    className="p-1 rounded-md text-zinc-500 hover:text-zinc-300 hover:bg-zinc-800"
+                    title="Clear console"
+                >
+                    <Ban className="w-3.5 h-3.5" />
+                </button>
+            </div>
+
+            <div ref={listRef} className="flex-1 overflow-y-auto scrollbar-thin font-mono">
+                {visible.length === 0 ? (
+                    <div className="flex items-center justify-center h-full text-zinc-600">
+                        {entries.length === 0 ? 'Console messages from the preview will appear here' : 'No messages match the filter'}
+                    </div>
+                ) : (
+                    visible.map(entry => (
+                        <div
+                            key={entry.id}
+                            className={`flex items-start gap-3 px-3 py-1 border-b border-zinc-800/40 ${LEVEL_STYLES[entry.level]}`}
+                        >
+                            <span className="text-zinc-600 flex-shrink-0">{formatTime(entry.timestamp)}</span>
+                            <div className="flex-1 min-w-0 flex flex-wrap gap-x-2 break-words whitespace-pre-wrap">
+                                {entry.args.map((arg, i) => <ConsoleArg key={i} arg={arg} />)}
+                            </div>
+                        </div>
+                    ))
+                )}
+            </div>
+        </div>
+    );
+};
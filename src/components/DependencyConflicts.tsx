@@ -0,0 +1,64 @@
+import { PackageX, RotateCcw } from 'lucide-react';
+import type { ConflictResolutions, DependencyConflict } from '../utils/dependencies';
+
+interface DependencyConflictsProps {
+    conflicts: DependencyConflict[];
+    resolutions: ConflictResolutions;
+    onResolve: (name: string, choice: 'base' | 'project') => void;
+    // Set when the running preview was started with different choices
+    onRestart?: () => void;
+}
+
+export const DependencyConflicts = ({ conflicts, resolutions, onResolve, onRestart }: DependencyConflictsProps) => {
+    if (conflicts.length === 0) return null;
+
+    return (
+        <div className="px-6 py-2 bg-amber-500/5 border-b border-amber-500/20">
+            <div className="flex items-start gap-3 text-xs">
+                <PackageX className="w-4 h-4 text-amber-400 flex-shrink-0 mt-0.5" />
+                <div className="flex-1 flex flex-wrap items-center gap-x-5 gap-y-1.5">
+                    <span className="text-amber-300 font-medium">Version conflicts with the pre-installed base:</span>
+                    {conflicts.map(conflict => {
+                        const choice = resolutions[conflict.name] ?? 'base';
+                        return (
+                            <div key={conflict.name} className="flex items-center gap-2">
+                                <span className="font-mono text-zinc-300">{conflict.name}</span>
+                                <div className="flex rounded-md overflow-hidden border border-zinc-700">
+                                    <button
+                                        onClick={() => onResolve(conflict.name, 'base')}
+                                        className={`px-2 py-0.5 font-mono transition-colors ${choice === 'base'
+                                            ? 'bg-emerald-500/20 text-emerald-300'
+                                            : 'text-zinc-500 hover:bg-zinc-800'
+                                            }`}
+                                        title="Keep the pre-installed version (no install)"
+                                    >
+                                        base {conflict.baseRange}
+                                    </button>
+                                    <button
+                                        onClick={() => onResolve(conflict.name, 'project')}
+                                        className={`px-2 py-0.5 font-mono transition-colors ${choice === 'project'
+                                            ? 'bg-blue-500/20 text-blue-300'
+                                            : 'text-zinc-500 hover:bg-zinc-800'
+                                            }`}
+                                        title="Install the version the project asks for"
+                                    >
+                                        project {conflict.projectRange}
+                                    </button>
+                                </div>
+                            </div>
+                        );
+                    })}
+                </div>
+                {onRestart && (
+                    <button
+                        onClick={onRestart}
+                        className="flex items-center gap-1.5 px-2.5 py-1 rounded-md bg-amber-500/20 hover:bg-amber-500/30 text-amber-300 flex-shrink-0 transition-colors"
+                    >
+                        <RotateCcw className="w-3.5 h-3.5" />
+                        Restart to apply
+                    </button>
+                )}
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,83 @@
+import { useEffect, useRef, useState } from 'react';
+import type { DeviceSettings, ViewportSize } from '../utils/viewports';
+import { VIEWPORT_PRESETS, MULTI_VIEWPORT_PRESETS, viewportSize, fitScale } from '../utils/viewports';
+
+// Space around and between fixed-size frames
+const FRAME_PADDING = 16;
+const FRAME_GAP = 16;
+// Height of the label above each frame
+const LABEL_HEIGHT = 24;
+
+interface DeviceFramesProps {
+    url: string;
+    settings: DeviceSettings;
+}
+
+// The preview at one or more emulated viewport sizes, scaled down to fit when enabled.
+// Every frame loads the same page; only the first one's reports are collected (see isPrimaryPreviewFrame).
+export const DeviceFrames = ({ url, settings }: DeviceFramesProps) => {
+    const containerRef = useRef<HTMLDivElement>(null);
+    const [available, setAvailable] = useState<ViewportSize>({ width: 0, height: 0 });
+
+    useEffect(() => {
+        const container = containerRef.current;
+        if (!container) return;
+        const observer = new ResizeObserver(([entry]) => {
+            setAvailable({ width: entry.contentRect.width, height: entry.contentRect.height });
+        });
+        observer.observe(container);
+        return () => observer.disconnect();
+    }, []);
+
+    const frames = (settings.multi ? MULTI_VIEWPORT_PRESETS : [settings.preset])
+        .map(id => ({
+            id,
+            label: VIEWPORT_PRESETS.find(p => p.id === id)?.label ?? id,
+            size: viewportSize(id, settings),
+        }));
+    const sized = frames.flatMap(f => f.size ? [{ ...f, size: f.size }] : []);
+
+    const scale = settings.fit
+        ? fitScale(sized.map(f => f.size), {
+            width: available.width - FRAME_PADDING * 2,
+            height: available.height - FRAME_PADDING * 2 - LABEL_HEIGHT,
+        }, FRAME_GAP)
+        : 1;
+
+    return (
+        <div ref={containerRef} className="absolute inset-0 overflow-auto">
+            {sized.length === 0 ? (
+                <iframe
+                    src={url}
+                    className="w-full h-full border-0 bg-white"
+                    title="Preview"
+                />
+            ) : (
+                <div className="flex items-start justify-center min-w-fit" style={{ padding: FRAME_PADDING, gap: FRAME_GAP }}>
+                    {sized.map(({ id, label, size }) => (
+                        <div key={id} className="flex-shrink-0">
+                            <p className="flex items-center gap-2 text-xs text-zinc-500" style={{ height: LABEL_HEIGHT }}>
+                                {label}
+                                <span className="font-mono text-zinc-600">
+                                    {size.width}×{size.height}{scale < 1 && ` · ${Math.round(scale * 100)}%`}
+                                </span>
+                            </p>
+                            {/* Laid out at the scaled size; the frame itself renders at the full viewport size */}
+                            <div
+                                className="overflow-hidden rounded-md ring-1 ring-zinc-700 shadow-lg shadow-black/40"
+                                style={{ width: size.width * scale, height: size.height * scale }}
+                            >
+                                <iframe
+                                    src={url}
+                                    className="border-0 bg-white origin-top-left"
+                                    style={{ width: size.width, height: size.height, transform: `scale(${scale})` }}
+                                    title={`Preview (${label})`}
+                                />
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,107 @@
+import { Maximize, Smartphone, Tablet, Monitor, Ruler, RotateCw, Shrink, Columns3 } from 'lucide-react';
+import type { LucideIcon } from 'lucide-react';
+import type { DeviceSettings, ViewportPresetId } from '../utils/viewports';
+import { VIEWPORT_PRESETS, MIN_VIEWPORT_SIZE, MAX_VIEWPORT_SIZE, clampViewportSize, viewportSize } from '../utils/viewports';
+
+const PRESET_ICONS: Record<ViewportPresetId, LucideIcon> = {
+    responsive: Maximize,
+    mobile: Smartphone,
+    tablet: Tablet,
+    desktop: Monitor,
+    custom: Ruler,
+};
+
+interface DeviceToolbarProps {
+    settings: DeviceSettings;
+    onChange: (settings: DeviceSettings) => void;
+}
+
+const toggleClass = (active: boolean) => `flex items-center gap-1.5 px-2 py-1 rounded-md text-xs transition-colors disabled:opacity-40 disabled:pointer-events-none ${active
+    ? 'bg-zinc-700 text-zinc-100'
+    : 'text-zinc-500 hover:text-zinc-300 hover:bg-zinc-800'
+    }`;
+
+export const DeviceToolbar = ({ settings, onChange }: DeviceToolbarProps) => {
+    const update = (patch: Partial<DeviceSettings>) => onChange({ ...settings, ...patch });
+    const size = viewportSize(settings.preset, settings);
+    // Rotation and scaling only apply to fixed-size frames
+    const sized = settings.multi || size !== null;
+
+    const setCustom = (dimension: 'width' | 'height', value: string) => {
+        update({ custom: { ...settings.custom, [dimension]: clampViewportSize(Number(value)) } });
+    };
+
+    return (
+        <div className="flex flex-wrap items-center gap-1 px-3 py-1.5 bg-zinc-900/60 border-b border-zinc-800">
+            {VIEWPORT_PRESETS.map(({ id, label }) => {
+                const Icon = PRESET_ICONS[id];
+                return (
+                    <button
+                        key={id}
+                        onClick={() => update({ preset: id, multi: false })}
+                        className={toggleClass(!settings.multi && settings.preset === id)}
+                        title={label}
+                    >
+                        <Icon className="w-3.5 h-3.5" />
+                        {label}
+                    </button>
+                );
+            })}
+
+            {settings.preset === 'custom' && !settings.multi && (
+                <div className="flex items-center gap-1 ml-1 text-xs text-zinc-500">
+                    {/* Keyed on the value so the inputs reset after clamping */}
+                    <input
+                        key={`w${settings.custom.width}`}
+                        type="number"
+                        min={MIN_VIEWPORT_SIZE}
+                        max={MAX_VIEWPORT_SIZE}
+                        defaultValue={settings.custom.width}
+                        onBlur={e => setCustom('width', e.target.value)}
+                        onKeyDown={e => e.key === 'Enter' && e.currentTarget.blur()}
+                        className="w-16 px-1.5 py-0.5 rounded bg-zinc-800 border border-zinc-700 text-zinc-200 focus:outline-none focus:border-emerald-500"
+                        title="Viewport width"
+                    />
+                    ×
+                    <input
+                        key={`h${settings.custom.height}`}
+                        type="number"
+                        min={MIN_VIEWPORT_SIZE}
+                        max={MAX_VIEWPORT_SIZE}
+                        defaultValue={settings.custom.height}
+                        onBlur={e => setCustom('height', e.target.value)}
+                        onKeyDown={e => e.key === 'Enter' && e.currentTarget.blur()}
+                        className="w-16 px-1.5 py-0.5 rounded bg-zinc-800 border border-zinc-700 text-zinc-200 focus:outline-none focus:border-emerald-500"
+                        title="Viewport height"
+                    />
+                </div>
+            )}
+
+            <div className="flex items-center gap-1 ml-auto">
+                <button
+                    onClick={() => update({ rotated: !settings.rotated })}
+                    disabled={!sized}
+                    className={toggleClass(settings.rotated)}
+                    title="Rotate (portrait / landscape)"
+                >
+                    <RotateCw className="w-3.5 h-3.5" />
+                </button>
+                <button
+                    onClick={() => update({ fit: !settings.fit })}
+                    disabled={!sized}
+                    className={toggleClass(settings.fit)}
+                    title="Zoom to fit"
+                >
+                    <Shrink className="w-3.5 h-3.5" />
+                </button>
+                <button
+                    onClick={() => update({ multi: !settings.multi })}
+                    className={toggleClass(settings.multi)}
+                    title="Mobile, tablet and desktop side by side"
+                >
+                    <Columns3 className="w-3.5 h-3.5" />
+                </button>
+            </div>
+        </div>
+    );
+};
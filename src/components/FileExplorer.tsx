@@ -1,12 +1,20 @@
 import { useState, useMemo } from 'react';
 import { ChevronRight, ChevronDown, File, Folder, FolderOpen } from 'lucide-react';
-import type { FileNode } from '../utils/fileUtils';
+import type { FileNode, FileSaveStatus } from '../utils/fileUtils';
 import { getFileColor } from '../utils/fileUtils';
 
+export interface ProblemCount {
+    errors: number;
+    warnings: number;
+}
+
 interface FileExplorerProps {
     files: FileNode[];
     selectedFile: string | null;
     onSelectFile: (file: FileNode) => void;
+    fileStatus?: Record<string, FileSaveStatus>;
+    // Error and warning counts per file path
+    problemCounts?: Record<string, ProblemCount>;
 }
 
 interface FileTreeItemProps {
@@ -16,6 +24,9 @@ interface FileTreeItemProps {
     onSelectFile: (file: FileNode) => void;
     expandedFolders: Set<string>;
     toggleFolder: (path: string) => void;
+    fileStatus?: Record<string, FileSaveStatus>;
+    // Error and warning counts per file path
+    problemCounts?: Record<string, ProblemCount>;
 }
 
 const FileTreeItem = ({
@@ -25,10 +36,14 @@ const FileTreeItem = ({
     onSelectFile,
     expandedFolders,
     toggleFolder,
+    fileStatus,
+    problemCounts,
 }: FileTreeItemProps) => {
     const isFolder = node.type === 'directory';
     const isExpanded = expandedFolders.has(node.path);
     const isSelected = selectedFile === node.path;
+    const status = fileStatus?.[node.path];
+    const problems = problemCounts?.[node.path];
 
     const handleClick = () => {
         if (isFolder) {
@@ -76,7 +91,23 @@ const FileTreeItem = ({
                         />
                     </>
                 )}
-                <span className="truncate font-medium">{node.name}</span>
+                <span className={`truncate font-medium ${problems?.errors ? 'text-red-400' : problems?.warnings ? 'text-amber-300' : ''}`}>
+                    {node.name}
+                </span>
+                {problems && (
+                    <span
+                        className={`ml-auto text-[10px] font-semibold ${problems.errors ? 'text-red-400' : 'text-amber-400'}`}
+                        title={`${problems.errors} error(s), ${problems.warnings} warning(s)`}
+                    >
+                        {problems.errors || problems.warnings}
+                    </span>
+                )}
+                {status && (
+                    <span
+                        className={`${problems ? '' : 'ml-auto '}w-2 h-2 flex-shrink-0 rounded-full ${status === 'saved' ? 'bg-emerald-400' : 'bg-amber-400'}`}
+                        title={status === 'saved' ? 'Saved to container' : 'Unsaved changes'}
+                    />
+                )}
             </div>
 
             {isFolder && isExpanded && node.children && (
@@ -95,6 +126,8 @@ const FileTreeItem = ({
                                 onSelectFile={onSelectFile}
                                 expandedFolders={expandedFolders}
                                 toggleFolder={toggleFolder}
+                                fileStatus={fileStatus}
+                                problemCounts={problemCounts}
                             />
                         ))}
                 </div>
@@ -107,6 +140,8 @@ export const FileExplorer = ({
     files,
     selectedFile,
     onSelectFile,
+    fileStatus,
+    problemCounts,
 }: FileExplorerProps) => {
     // Auto-expand first level folders
     const initialExpanded = useMemo(() => {
@@ -166,6 +201,8 @@ export const FileExplorer = ({
                         onSelectFile={onSelectFile}
                         expandedFolders={expandedFolders}
                         toggleFolder={toggleFolder}
+                        fileStatus={fileStatus}
+                        problemCounts={problemCounts}
                     />
                 ))}
         </div>
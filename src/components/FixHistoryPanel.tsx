@@ -0,0 +1,156 @@
+import { useState } from 'react';
+import { DiffEditor } from '@monaco-editor/react';
+import { History, Undo2, RotateCcw, X, Loader2, CircleCheck, CircleX } from 'lucide-react';
+import { getLanguage } from '../utils/fileUtils';
+import type { FixHistoryEntry, FixSource, FixStatus } from '../utils/fixHistory';
+import { entriesUndoneBy } from '../utils/fixHistory';
+
+interface FixHistoryPanelProps {
+    history: FixHistoryEntry[];
+    onRevert: (entry: FixHistoryEntry) => void;
+    onRevertAll: () => void;
+    onClose: () => void;
+    // Disabled while a revert is being written
+    isBusy?: boolean;
+}
+
+const SOURCE_STYLES: Record<FixSource, { label: string; className: string }> = {
+    llm: { label: 'AI fix', className: 'text-purple-300 bg-purple-500/10' },
+    manual: { label: 'Edit', className: 'text-blue-300 bg-blue-500/10' },
+    revert: { label: 'Revert', className: 'text-amber-300 bg-amber-500/10' },
+};
+
+const StatusBadge = ({ status }: { status: FixStatus }) => {
+    if (status === 'verifying') {
+        return <span className="flex items-center gap-1 text-zinc-500"><Loader2 className="w-3 h-3 animate-spin" />verifying</span>;
+    }
+    if (status === 'confirmed') {
+        return <span className="flex items-center gap-1 text-emerald-400/80" title="The preview stayed free of the error after this fix"><CircleCheck className="w-3 h-3" />confirmed</span>;
+    }
+    return <span className="flex items-center gap-1 text-red-400/80" title="Rolled back automatically after verification failed"><CircleX className="w-3 h-3" />failed</span>;
+};
+
+export const FixHistoryPanel = ({ history, onRevert, onRevertAll, onClose, isBusy }: FixHistoryPanelProps) => {
+    const [selectedId, setSelectedId] = useState<string | null>(null);
+
+    // Newest first
+    const timeline = [...history].reverse();
+    const entry = timeline.find(e => e.id === selectedId) || timeline[0];
+
+    const revertTitle = (target: FixHistoryEntry) => {
+        const later = entriesUndoneBy(history, target.id).length - 1;
+        return later > 0
+            ? `Restore ${target.path} to before this change (also undoes ${later} later change${later === 1 ? '' : 's'})`
+            : `Restore ${target.path} to before this change`;
+    };
+
+    return (
+        <div className="flex flex-col h-full bg-zinc-950">
+            {/* Header */}
+            <div className="flex items-center justify-between px-4 py-3 bg-zinc-900 border-b border-zinc-800">
+                <div className="flex items-center gap-3">
+                    <div className="p-1.5 rounded-lg bg-amber-500/10">
+                        <History className="w-4 h-4 text-amber-400" />
+                    </div>
+                    <span className="text-sm text-zinc-300 font-semibold">Fix history</span>
+                    <span className="px-2 py-0.5 text-xs text-zinc-400 bg-zinc-800 rounded-full">
+                        {history.length} change{history.length === 1 ? '' : 's'}
+                    </span>
+                </div>
+                <div className="flex items-center gap-2">
+                    <button
+                        onClick={onRevertAll}
+                        disabled={isBusy || history.length === 0}
+                        className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-sm bg-zinc-800 hover:bg-red-500/20 disabled:opacity-50 text-zinc-400 hover:text-red-300 transition-colors"
+                        title="Restore every file to its content in the uploaded ZIP"
+                    >
+                        <RotateCcw className="w-4 h-4" />
+                        Revert all to upload
+                    </button>
+                    <button
+                        onClick={onClose}
+                        className="p-1.5 rounded-lg text-zinc-500 hover:text-zinc-300 hover:bg-zinc-800"
+                        title="Close history"
+                    >
+                        <X className="w-4 h-4" />
+                    </button>
+                </div>
+            </div>
+
+            {history.length === 0 ? (
+                <div className="flex-1 flex items-center justify-center text-sm text-zinc-600">
+                    No changes yet. AI fixes and saved edits are recorded here.
+                </div>
+            ) : (
+                <div className="flex-1 flex min-h-0">
+                    {/* Timeline */}
+                    <div className="w-72 flex-shrink-0 border-r border-zinc-800 overflow-y-auto scrollbar-thin">
+                        {timeline.map(item => {
+                            const style = SOURCE_STYLES[item.source];
+                            return (
+                                <div
+                                    key={item.id}
+                                    onClick={() => setSelectedId(item.id)}
+                                    className={`group px-3 py-2 border-b border-zinc-800/60 cursor-pointer text-xs ${item.id === entry?.id ? 'bg-zinc-800/70' : 'hover:bg-zinc-900'}`}
+                                >
+                                    <div className="flex items-center gap-2">
+                                        <span className={`px-1.5 py-0.5 rounded ${style.className}`}>{style.label}</span>
+                                        <span className="text-zinc-500">{new Date(item.timestamp).toLocaleTimeString()}</span>
+                                        {item.status && <StatusBadge status={item.status} />}
+                                        {item.revertedAt ? (
+                                            <span className="ml-auto text-zinc-600 line-through">reverted</span>
+                                        ) : item.source !== 'revert' && (
+                                            <button
+                                                onClick={(e) => { e.stopPropagation(); onRevert(item); }}
+                                                disabled={isBusy}
+                                                className="ml-auto flex items-center gap-1 px-1.5 py-0.5 rounded text-zinc-400 hover:text-amber-300 hover:bg-amber-500/10 disabled:opacity-50 opacity-0 group-hover:opacity-100 transition-opacity"
+                                                title={revertTitle(item)}
+                                            >
+                                                <Undo2 className="w-3 h-3" />
+                                                Revert
+                                            </button>
+                                        )}
+                                    </div>
+                                    <p className={`mt-1 font-mono truncate ${item.revertedAt ? 'text-zinc-600' : 'text-zinc-300'}`}>{item.path}</p>
+                                    {item.error && (
+                                        <p className="mt-0.5 text-zinc-500 truncate">{item.error.split('\n').find(Boolean)}</p>
+                                    )}
+                                </div>
+                            );
+                        })}
+                    </div>
+
+                    {/* Selected change */}
+                    {entry && (
+                        <div className="flex-1 flex flex-col min-w-0">
+                            {entry.error && (
+                                <div className="px-4 py-2 border-b border-zinc-800 bg-red-500/5 max-h-20 overflow-y-auto">
+                                    <pre className="text-xs text-red-300/80 font-mono whitespace-pre-wrap">{entry.error.slice(0, 600)}</pre>
+                                </div>
+                            )}
+                            <div className="flex-1">
+                                <DiffEditor
+                                    key={entry.id}
+                                    height="100%"
+                                    language={getLanguage(entry.path)}
+                                    original={entry.before}
+                                    modified={entry.after}
+                                    theme="vs-dark"
+                                    options={{
+                                        readOnly: true,
+                                        renderSideBySide: true,
+                                        minimap: { enabled: false },
+                                        fontSize: 13,
+                                        scrollBeyondLastLine: false,
+                                        automaticLayout: true,
+                                        fontFamily: "'Fira Code', 'Cascadia Code', Consolas, monospace",
+                                    }}
+                                />
+                            </div>
+                        </div>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,191 @@
+import { useRef, useState } from 'react';
+import { DiffEditor } from '@monaco-editor/react';
+import type { MonacoDiffEditor } from '@monaco-editor/react';
+import { GitCompare, Check, X, Pencil, AlertTriangle } from 'lucide-react';
+import { getLanguage } from '../utils/fileUtils';
+import type { FilePatch, FixProposal } from '../utils/fixUtils';
+
+interface FixReviewPanelProps {
+    proposals: FixProposal[];
+    // Current content of each proposal's file, to flag proposals made against stale code
+    currentContent: (path: string) => string | undefined;
+    onAccept: (proposal: FixProposal, patches: FilePatch[]) => void;
+    onReject: (proposal: FixProposal) => void;
+}
+
+export const FixReviewPanel = ({ proposals, currentContent, onAccept, onReject }: FixReviewPanelProps) => {
+    const [selectedId, setSelectedId] = useState<string | null>(null);
+    const [selectedPatchPath, setSelectedPatchPath] = useState<string | null>(null);
+    const [isEditing, setIsEditing] = useState(false);
+    const diffEditorRef = useRef<MonacoDiffEditor | null>(null);
+    // Hand edits per patch path, captured when switching files or accepting
+    const [edits, setEdits] = useState<Record<string, string>>({});
+
+    const proposal = proposals.find(p => p.id === selectedId) || proposals[0];
+    if (!proposal) return null;
+
+    const patch = proposal.patches.find(p => p.path === selectedPatchPath) || proposal.patches[0];
+    const isStale = proposal.patches.some(p => currentContent(p.path) !== p.originalCode);
+
+    // The editor keeps showing edits after editing is turned off, so they are captured either way
+    const captureEdits = (): Record<string, string> => {
+        const value = diffEditorRef.current?.getModifiedEditor().getValue();
+        if (value === undefined || value === (edits[patch.path] ?? patch.fixedCode)) return edits;
+        return { ...edits, [patch.path]: value };
+    };
+    const hasEdits = isEditing || Object.keys(edits).length > 0;
+
+    const toggleEditing = () => {
+        setEdits(captureEdits());
+        setIsEditing(!isEditing);
+    };
+
+    const selectProposal = (id: string) => {
+        setSelectedId(id);
+        setSelectedPatchPath(null);
+        setIsEditing(false);
+        setEdits({});
+    };
+
+    const selectPatch = (path: string) => {
+        setEdits(captureEdits());
+        setSelectedPatchPath(path);
+    };
+
+    const handleAccept = () => {
+        const finalEdits = captureEdits();
+        const patches = proposal.patches.map(p => ({
+            ...p,
+            fixedCode: finalEdits[p.path] ?? p.fixedCode,
+        }));
+        setIsEditing(false);
+        setEdits({});
+        onAccept(proposal, patches);
+    };
+
+    const handleReject = () => {
+        setIsEditing(false);
+        setEdits({});
+        onReject(proposal);
+    };
+
+    return (
+        <div className="flex flex-col h-full bg-zinc-950">
+            {/* Header */}
+            <div className="flex items-center justify-between px-4 py-3 bg-zinc-900 border-b border-zinc-800">
+                <div className="flex items-center gap-3 min-w-0">
+                    <div className="p-1.5 rounded-lg bg-purple-500/10">
+                        <GitCompare className="w-4 h-4 text-purple-400" />
+                    </div>
+                    <span className="text-sm text-zinc-300 font-semibold">Review fix</span>
+                    <span className="text-sm text-zinc-400 font-mono truncate">{proposal.path}</span>
+                    {proposal.patches.length > 1 && (
+                        <span className="px-2 py-0.5 text-xs text-purple-300 bg-purple-500/10 rounded-full">
+                            {proposal.patches.length} files
+                        </span>
+                    )}
+                    {isStale && (
+                        <span
+                            className="flex items-center gap-1.5 px-2 py-0.5 text-xs text-amber-400 bg-amber-500/10 rounded-full"
+                            title="The file changed after this fix was proposed; accepting replaces the whole file"
+                        >
+                            <AlertTriangle className="w-3 h-3" />
+                            File changed
+                        </span>
+                    )}
+                </div>
+                <div className="flex items-center gap-2 flex-shrink-0">
+                    <button
+                        onClick={toggleEditing}
+                        className={`flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-sm transition-colors ${isEditing
+                            ? 'bg-blue-500/20 text-blue-300'
+                            : 'bg-zinc-800 hover:bg-zinc-700 text-zinc-400'
+                            }`}
+                        title="Edit the proposed code before accepting"
+                    >
+                        <Pencil className="w-4 h-4" />
+                        Edit
+                    </button>
+                    <button
+                        onClick={handleReject}
+                        className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-sm bg-zinc-800 hover:bg-red-500/20 text-zinc-400 hover:text-red-300 transition-colors"
+                    >
+                        <X className="w-4 h-4" />
+                        Reject
+                    </button>
+                    <button
+                        onClick={handleAccept}
+                        className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-sm bg-emerald-600 hover:bg-emerald-500 text-white font-medium transition-colors"
+                    >
+                        <Check className="w-4 h-4" />
+                        {hasEdits ? 'Accept edited' : 'Accept'}
+                    </button>
+                </div>
+            </div>
+
+            {/* Pending queue */}
+            {proposals.length > 1 && (
+                <div className="flex gap-1 px-3 py-2 bg-zinc-900/60 border-b border-zinc-800 overflow-x-auto">
+                    {proposals.map((p, i) => (
+                        <button
+                            key={p.id}
+                            onClick={() => selectProposal(p.id)}
+                            className={`px-2.5 py-1 rounded-md text-xs font-mono whitespace-nowrap transition-colors ${p.id === proposal.id
+                                ? 'bg-purple-500/20 text-purple-300'
+                                : 'text-zinc-500 hover:bg-zinc-800 hover:text-zinc-300'
+                                }`}
+                        >
+                            {i + 1}. {p.path.split('/').pop()}
+                        </button>
+                    ))}
+                </div>
+            )}
+
+            {/* Files touched by the selected proposal */}
+            {proposal.patches.length > 1 && (
+                <div className="flex gap-1 px-3 py-2 bg-zinc-900/40 border-b border-zinc-800 overflow-x-auto">
+                    {proposal.patches.map(p => (
+                        <button
+                            key={p.path}
+                            onClick={() => selectPatch(p.path)}
+                            className={`px-2.5 py-1 rounded-md text-xs font-mono whitespace-nowrap transition-colors ${p.path === patch.path
+                                ? 'bg-zinc-700 text-zinc-100'
+                                : 'text-zinc-500 hover:bg-zinc-800 hover:text-zinc-300'
+                                }`}
+                        >
+                            {p.path}
+                        </button>
+                    ))}
+                </div>
+            )}
+
+            {/* Error that triggered the fix */}
+            <div className="px-4 py-2 border-b border-zinc-800 bg-red-500/5 max-h-20 overflow-y-auto">
+                <pre className="text-xs text-red-300/80 font-mono whitespace-pre-wrap">{proposal.error.slice(0, 600)}</pre>
+            </div>
+
+            {/* Diff: original vs proposed */}
+            <div className="flex-1">
+                <DiffEditor
+                    key={`${proposal.id}:${patch.path}`}
+                    height="100%"
+                    language={getLanguage(patch.path)}
+                    original={patch.originalCode}
+                    modified={edits[patch.path] ?? patch.fixedCode}
+                    theme="vs-dark"
+                    onMount={(editor) => { diffEditorRef.current = editor; }}
+                    options={{
+                        readOnly: !isEditing,
+                        originalEditable: false,
+                        renderSideBySide: true,
+                        minimap: { enabled: false },
+                        fontSize: 13,
+                        scrollBeyondLastLine: false,
+                        automaticLayout: true,
+                        fontFamily: "'Fira Code', 'Cascadia Code', Consolas, monospace",
+                    }}
+                />
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,75 @@
+import { useEffect, useState } from 'react';
+import Editor from '@monaco-editor/react';
+import type { OnMount } from '@monaco-editor/react';
+import { Wand2, Loader2, Square } from 'lucide-react';
+import { getLanguage } from '../utils/fileUtils';
+
+type CodeEditorInstance = Parameters<OnMount>[0];
+
+interface FixStreamPanelProps {
+    // File the code being written belongs to
+    path: string;
+    code: string;
+    status: string;
+    onCancel: () => void;
+}
+
+export const FixStreamPanel = ({ path, code, status, onCancel }: FixStreamPanelProps) => {
+    const [editorInstance, setEditorInstance] = useState<CodeEditorInstance | null>(null);
+
+    // Follow the text as it is written
+    useEffect(() => {
+        const model = editorInstance?.getModel();
+        if (editorInstance && model) editorInstance.revealLine(model.getLineCount());
+    }, [editorInstance, code]);
+
+    return (
+        <div className="flex flex-col h-full bg-zinc-950">
+            {/* Header */}
+            <div className="flex items-center justify-between px-4 py-3 bg-zinc-900 border-b border-zinc-800">
+                <div className="flex items-center gap-3 min-w-0">
+                    <div className="p-1.5 rounded-lg bg-purple-500/10">
+                        <Wand2 className="w-4 h-4 text-purple-400" />
+                    </div>
+                    <span className="text-sm text-zinc-300 font-mono font-medium truncate">{path}</span>
+                    <span className="flex items-center gap-1.5 text-xs text-purple-300">
+                        <Loader2 className="w-3 h-3 animate-spin" />
+                        {status}
+                    </span>
+                    <span className="text-xs text-zinc-600">{code.length} chars</span>
+                </div>
+                <button
+                    onClick={onCancel}
+                    className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-sm bg-zinc-800 hover:bg-red-500/20 text-zinc-400 hover:text-red-300 transition-colors"
+                    title="Stop generating this fix"
+                >
+                    <Square className="w-3.5 h-3.5" />
+                    Cancel
+                </button>
+            </div>
+
+            {/* Live output; no model path, so it never shares a model with the file's own editor */}
+            <div className="flex-1">
+                <Editor
+                    height="100%"
+                    language={getLanguage(path)}
+                    value={code}
+                    theme="vs-dark"
+                    onMount={(instance) => setEditorInstance(instance)}
+                    options={{
+                        readOnly: true,
+                        minimap: { enabled: false },
+                        fontSize: 14,
+                        lineNumbers: 'on',
+                        scrollBeyondLastLine: false,
+                        wordWrap: 'on',
+                        automaticLayout: true,
+                        padding: { top: 16, bottom: 16 },
+                        fontFamily: "'Fira Code', 'Cascadia Code', Consolas, monospace",
+                        renderLineHighlight: 'none',
+                    }}
+                />
+            </div>
+        </div>
+    );
+};
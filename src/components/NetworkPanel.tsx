@@ -0,0 +1,115 @@
+import { useMemo, useState } from 'react';
+import { Ban, Search, Loader2 } from 'lucide-react';
+import type { NetworkRequest } from '../utils/errorReporter';
+import { isFailedRequest } from '../utils/errorReporter';
+
+interface NetworkPanelProps {
+    requests: NetworkRequest[];
+    onClear: () => void;
+}
+
+// Path and query for same-origin requests, the full URL otherwise
+const displayUrl = (url: string) => {
+    try {
+        const parsed = new URL(url);
+        return parsed.origin === window.location.origin ? parsed.pathname + parsed.search : url;
+    } catch {
+        return url;
+    }
+};
+
+const statusClass = (request: NetworkRequest) =>
+    !request.done ? 'text-zinc-500' : isFailedRequest(request) ? 'text-red-400' : 'text-emerald-400';
+
+export const NetworkPanel = ({ requests, onClear }: NetworkPanelProps) => {
+    const [failedOnly, setFailedOnly] = useState(false);
+    const [query, setQuery] = useState('');
+    const [expandedId, setExpandedId] = useState<string | null>(null);
+
+    const visible = useMemo(() => {
+        const needle = query.trim().toLowerCase();
+        return requests.filter(request =>
+            (!failedOnly || isFailedRequest(request)) &&
+            (!needle || request.url.toLowerCase().includes(needle))
+        );
+    }, [requests, failedOnly, query]);
+
+    return (
+        <div className="flex flex-col h-full text-xs">
+            <div className="flex items-center gap-2 px-3 py-1.5 border-b border-zinc-800/60">
+                <div className="flex items-center gap-1.5 flex-1 px-2 py-1 rounded-md bg-zinc-900 border border-zinc-800">
+                    <Search className="w-3 h-3 text-zinc-600" />
+                    <input
+                        value={query}
+                        onChange={(e) => setQuery(e.target.value)}
+                        placeholder="Filter URLs"
+                        className="flex-1 bg-transparent outline-none text-zinc-300 placeholder:text-zinc-600"
+                    />
+                </div>
+                <button
+                    onClick={() => setFailedOnly(!failedOnly)}
+                    className={`px-2 py-0.5 rounded-md transition-colors ${failedOnly
+                        ? 'bg-red-500/15 text-red-300'
+                        : 'text-zinc-500 hover:text-zinc-300'
+                        }`}
+                >
+                    Failed only
+                </button>
+                <button
+                    onClick={onClear}
+                    className="p-1 rounded-md text-zinc-500 hover:text-zinc-300 hover:bg-zinc-800"
+                    title="Clear requests"
+                >
+                    <Ban className="w-3.5 h-3.5" />
+                </button>
+            </div>
+
+            <div className="flex-1 overflow-y-auto scrollbar-thin font-mono">
+                {visible.length === 0 ? (
+                    <div className="flex items-center justify-center h-full text-zinc-600 font-sans">
+                        {requests.length === 0 ? 'fetch and XHR requests from the preview will appear here' : 'No requests match the filter'}
+                    </div>
+                ) : (
+                    visible.map(request => (
+                        <div key={request.id} className="border-b border-zinc-800/40">
+                            <button
+                                onClick={() => setExpandedId(expandedId === request.id ? null : request.id)}
+                                className={`w-full flex items-center gap-3 px-3 py-1 text-left hover:bg-zinc-900 ${isFailedRequest(request) ? 'bg-red-500/5' : ''}`}
+                            >
+                                <span className={`w-10 flex-shrink-0 ${statusClass(request)}`}>
+                                    {!request.done
+                                        ? <Loader2 className="w-3 h-3 animate-spin" />
+                                        : request.error ? 'ERR' : request.status}
+                                </span>
+                                <span className="w-12 flex-shrink-0 text-zinc-400">{request.method}</span>
+                                <span className="flex-1 truncate text-zinc-300" title={request.url}>{displayUrl(request.url)}</span>
+                                <span className="text-zinc-600 flex-shrink-0">{request.initiator}</span>
+                                <span className="w-14 text-right text-zinc-500 flex-shrink-0">
+                                    {request.duration !== undefined ? `${request.duration} ms` : ''}
+                                </span>
+                            </button>
+                            {expandedId === request.id && (
+                                <div className="px-3 pb-2 space-y-2 text-zinc-400">
+                                    {request.error && <p className="text-red-300">{request.error}</p>}
+                                    {request.statusText && <p>Status: {request.status} {request.statusText}</p>}
+                                    {request.requestBody && (
+                                        <div>
+                                            <p className="text-zinc-500 mb-1">Request body</p>
+                                            <pre className="p-2 rounded bg-zinc-900 whitespace-pre-wrap break-all">{request.requestBody}</pre>
+                                        </div>
+                                    )}
+                                    {request.responseBody && (
+                                        <div>
+                                            <p className="text-zinc-500 mb-1">Response body</p>
+                                            <pre className="p-2 rounded bg-zinc-900 whitespace-pre-wrap break-all">{request.responseBody}</pre>
+                                        </div>
+                                    )}
+                                </div>
+                            )}
+                        </div>
+                    ))
+                )}
+            </div>
+        </div>
+    );
+};
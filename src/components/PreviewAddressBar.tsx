@@ -0,0 +1,98 @@
+import { useRef, useState } from 'react';
+import { ArrowLeft, ArrowRight, RotateCw, Route as RouteIcon, ChevronDown } from 'lucide-react';
+import type { PreviewNavigation } from '../utils/errorReporter';
+import type { DiscoveredRoute } from '../utils/routes';
+
+interface PreviewAddressBarProps {
+    // Current path in the preview, including search and hash
+    path: string;
+    routes: DiscoveredRoute[];
+    onNavigate: (navigation: PreviewNavigation) => void;
+}
+
+const navButtonClass = 'p-1.5 rounded-md text-zinc-500 hover:text-zinc-300 hover:bg-zinc-800 transition-colors';
+
+export const PreviewAddressBar = ({ path, routes, onNavigate }: PreviewAddressBarProps) => {
+    const inputRef = useRef<HTMLInputElement>(null);
+    const [showRoutes, setShowRoutes] = useState(false);
+
+    const go = (target: string) => {
+        const trimmed = target.trim();
+        onNavigate({ action: 'go', path: trimmed.startsWith('/') ? trimmed : `/${trimmed}` });
+    };
+
+    const openRoute = (route: DiscoveredRoute) => {
+        setShowRoutes(false);
+        if (!route.dynamic) {
+            go(route.path);
+            return;
+        }
+        // Params have to be filled in first: put the route in the address bar with the first one selected
+        const input = inputRef.current;
+        if (!input) return;
+        input.value = route.path;
+        input.focus();
+        const param = route.path.match(/:\w+|\*/);
+        if (param?.index !== undefined) input.setSelectionRange(param.index, param.index + param[0].length);
+    };
+
+    return (
+        <div className="relative flex items-center gap-1 px-3 py-1.5 bg-zinc-900/60 border-b border-zinc-800">
+            <button onClick={() => onNavigate({ action: 'back' })} className={navButtonClass} title="Back">
+                <ArrowLeft className="w-3.5 h-3.5" />
+            </button>
+            <button onClick={() => onNavigate({ action: 'forward' })} className={navButtonClass} title="Forward">
+                <ArrowRight className="w-3.5 h-3.5" />
+            </button>
+            <button onClick={() => onNavigate({ action: 'reload' })} className={navButtonClass} title="Reload page">
+                <RotateCw className="w-3.5 h-3.5" />
+            </button>
+
+            {/* Keyed on the path so it shows the new location after every navigation */}
+            <input
+                key={path}
+                ref={inputRef}
+                defaultValue={path}
+                onKeyDown={e => e.key === 'Enter' && go(e.currentTarget.value)}
+                onFocus={e => e.currentTarget.select()}
+                spellCheck={false}
+                className="flex-1 min-w-0 px-2.5 py-1 rounded-md bg-zinc-800 border border-zinc-700 text-xs text-zinc-200 font-mono focus:outline-none focus:border-emerald-500"
+                title="Path in the preview; press Enter to open it"
+            />
+
+            <button
+                onClick={() => setShowRoutes(!showRoutes)}
+                disabled={routes.length === 0}
+                className={`flex items-center gap-1 px-2 py-1 rounded-md text-xs transition-colors disabled:opacity-40 disabled:pointer-events-none ${showRoutes
+                    ? 'bg-zinc-700 text-zinc-100'
+                    : 'text-zinc-500 hover:text-zinc-300 hover:bg-zinc-800'
+                    }`}
+                title={routes.length > 0 ? 'Routes found in the project' : 'No react-router routes found'}
+            >
+                <RouteIcon className="w-3.5 h-3.5" />
+                {routes.length}
+                <ChevronDown className="w-3 h-3" />
+            </button>
+
+            {showRoutes && (
+                <div className="absolute right-3 top-full mt-1 z-20 w-72 max-h-80 overflow-y-auto rounded-lg border border-zinc-700 bg-zinc-900 shadow-xl shadow-black/50 py-1">
+                    {routes.map(route => (
+                        <button
+                            key={route.path}
+                            onClick={() => openRoute(route)}
+                            className={`w-full flex items-center justify-between gap-3 px-3 py-1.5 text-left hover:bg-zinc-800 ${route.path === path ? 'bg-zinc-800/60' : ''}`}
+                            title={route.dynamic ? 'Fill in the parameters, then press Enter' : `Open ${route.path}`}
+                        >
+                            <span className={`text-xs font-mono truncate ${route.dynamic ? 'text-amber-300/80' : 'text-zinc-200'}`}>
+                                {route.path}
+                            </span>
+                            <span className="text-[10px] text-zinc-600 flex-shrink-0">
+                                {route.file.split('/').pop()}:{route.line}
+                            </span>
+                        </button>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
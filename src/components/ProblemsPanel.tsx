@@ -0,0 +1,100 @@
+import { CircleCheck, CircleX, TriangleAlert, Wand2, Loader2 } from 'lucide-react';
+import type { Diagnostic, DiagnosticSource } from '../utils/diagnostics';
+import { diagnosticKey } from '../utils/diagnostics';
+
+interface ProblemsPanelProps {
+    problems: Diagnostic[];
+    onSelect?: (problem: Diagnostic) => void;
+    onFix?: (problem: Diagnostic) => void;
+    // Fixing is disabled while another fix is in flight
+    isFixing?: boolean;
+    // Background tsc / ESLint state, shown in the toolbar when the project has either
+    checks?: {
+        isChecking: boolean;
+        autoFix: boolean;
+        onToggleAutoFix: (enabled: boolean) => void;
+    };
+}
+
+const SOURCE_STYLES: Record<DiagnosticSource, string> = {
+    vite: 'text-purple-300 bg-purple-500/10',
+    esbuild: 'text-amber-300 bg-amber-500/10',
+    rollup: 'text-red-300 bg-red-500/10',
+    postcss: 'text-pink-300 bg-pink-500/10',
+    tailwind: 'text-cyan-300 bg-cyan-500/10',
+    runtime: 'text-orange-300 bg-orange-500/10',
+    typescript: 'text-blue-300 bg-blue-500/10',
+    eslint: 'text-indigo-300 bg-indigo-500/10',
+};
+
+export const ProblemsPanel = ({ problems, onSelect, onFix, isFixing, checks }: ProblemsPanelProps) => {
+    return (
+        <div className="flex flex-col h-full text-xs">
+            {checks && (
+                <div className="flex items-center justify-between px-3 py-1.5 border-b border-zinc-800/60 text-zinc-500">
+                    <span className="flex items-center gap-1.5">
+                        {checks.isChecking && <Loader2 className="w-3 h-3 animate-spin" />}
+                        {checks.isChecking ? 'Checking types and lint...' : 'Type and lint checks up to date'}
+                    </span>
+                    <label className="flex items-center gap-1.5 cursor-pointer select-none">
+                        <input
+                            type="checkbox"
+                            checked={checks.autoFix}
+                            onChange={(e) => checks.onToggleAutoFix(e.target.checked)}
+                            className="accent-purple-500"
+                        />
+                        Auto-fix type and lint errors
+                    </label>
+                </div>
+            )}
+            {problems.length === 0 ? (
+                <div className="flex-1 flex items-center justify-center text-zinc-600">
+                    <CircleCheck className="w-4 h-4 mr-2 text-emerald-500/60" />
+                    No problems detected
+                </div>
+            ) : (
+                <div className="flex-1 overflow-y-auto scrollbar-thin">
+                    {problems.map(problem => (
+                        <div
+                            key={diagnosticKey(problem)}
+                            className="group flex items-start gap-2 px-3 py-2 border-b border-zinc-800/60 hover:bg-zinc-900"
+                        >
+                            {problem.severity === 'warning'
+                                ? <TriangleAlert className="w-3.5 h-3.5 mt-0.5 text-amber-400 flex-shrink-0" />
+                                : <CircleX className="w-3.5 h-3.5 mt-0.5 text-red-400 flex-shrink-0" />}
+                            <div className="flex-1 min-w-0">
+                                <p className="text-zinc-300 break-words">{problem.message}</p>
+                                <div className="flex items-center gap-2 mt-1">
+                                    <button
+                                        onClick={() => onSelect?.(problem)}
+                                        className="font-mono text-zinc-500 hover:text-zinc-300 truncate"
+                                        title="Open file"
+                                    >
+                                        {problem.file}
+                                        {problem.line !== null && `:${problem.line}`}
+                                        {problem.column !== null && `:${problem.column}`}
+                                    </button>
+                                    <span className={`px-1.5 py-0.5 rounded ${SOURCE_STYLES[problem.source]}`}>
+                                        {problem.source}
+                                    </span>
+                                    {problem.code && <span className="text-zinc-600 font-mono truncate">{problem.code}</span>}
+                                </div>
+                            </div>
+                            {onFix && (
+                                <button
+                                    onClick={() => onFix(problem)}
+                                    disabled={isFixing}
+                                    className="flex items-center gap-1 px-2 py-1 rounded-md text-purple-300 bg-purple-500/10 hover:bg-purple-500/20 disabled:opacity-40 opacity-0 group-hover:opacity-100 transition-opacity flex-shrink-0"
+                                    title="Ask the AI to fix this problem"
+                                >
+                                    <Wand2 className="w-3 h-3" />
+                                    Fix
+                                </button>
+                            )}
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
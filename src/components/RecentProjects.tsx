@@ -0,0 +1,72 @@
+import { useEffect, useState } from 'react';
+import { FolderOpen, Trash2, Clock, Wand2 } from 'lucide-react';
+import type { WorkspaceInfo } from '../utils/cache';
+import { listWorkspaces, deleteWorkspace } from '../utils/cache';
+
+interface RecentProjectsProps {
+    onOpen: (id: string) => void;
+    // Disabled while a project is being opened
+    isLoading?: boolean;
+}
+
+export const RecentProjects = ({ onOpen, isLoading }: RecentProjectsProps) => {
+    const [workspaces, setWorkspaces] = useState<WorkspaceInfo[]>([]);
+
+    useEffect(() => {
+        let cancelled = false;
+        listWorkspaces().then(list => {
+            if (!cancelled) setWorkspaces(list);
+        });
+        return () => { cancelled = true; };
+    }, []);
+
+    const handleDelete = async (id: string) => {
+        await deleteWorkspace(id);
+        setWorkspaces(prev => prev.filter(w => w.id !== id));
+    };
+
+    if (workspaces.length === 0) return null;
+
+    return (
+        <div className="mt-8">
+            <h2 className="flex items-center gap-2 mb-3 text-sm font-medium text-zinc-400">
+                <Clock className="w-4 h-4" />
+                Recent projects
+            </h2>
+            <div className="rounded-xl border border-zinc-800 bg-zinc-900/50 divide-y divide-zinc-800">
+                {workspaces.map(workspace => (
+                    <div key={workspace.id} className="group flex items-center gap-3 px-4 py-3">
+                        <button
+                            onClick={() => onOpen(workspace.id)}
+                            disabled={isLoading}
+                            className="flex-1 flex items-center gap-3 min-w-0 text-left disabled:opacity-50"
+                            title="Reopen and start the preview"
+                        >
+                            <FolderOpen className="w-4 h-4 text-emerald-400 flex-shrink-0" />
+                            <div className="min-w-0">
+                                <p className="text-sm text-zinc-200 truncate group-hover:text-white">{workspace.name}</p>
+                                <p className="flex items-center gap-2 text-xs text-zinc-500">
+                                    {workspace.fileCount} files
+                                    {workspace.fixCount > 0 && (
+                                        <span className="flex items-center gap-1 text-purple-400/80">
+                                            <Wand2 className="w-3 h-3" />
+                                            {workspace.fixCount} fix{workspace.fixCount === 1 ? '' : 'es'}
+                                        </span>
+                                    )}
+                                    <span>· {new Date(workspace.updatedAt).toLocaleString()}</span>
+                                </p>
+                            </div>
+                        </button>
+                        <button
+                            onClick={() => handleDelete(workspace.id)}
+                            className="p-1.5 rounded-lg text-zinc-600 hover:text-red-400 hover:bg-zinc-800 opacity-0 group-hover:opacity-100 transition-opacity"
+                            title="Forget this project"
+                        >
+                            <Trash2 className="w-4 h-4" />
+                        </button>
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+};
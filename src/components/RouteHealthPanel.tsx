@@ -0,0 +1,179 @@
+import { useState } from 'react';
+import type { ReactNode } from 'react';
+import { CircleCheck, CircleX, CircleDashed, CircleSlash, Loader2, Play, Square, Wand2, ExternalLink } from 'lucide-react';
+import type { RouteCrawl, RouteHealth, RouteHealthStatus } from '../hooks/useRouteCrawl';
+import type { Diagnostic } from '../utils/diagnostics';
+import { diagnosticKey } from '../utils/diagnostics';
+
+interface RouteHealthPanelProps {
+    crawl: RouteCrawl | null;
+    // Routes a new smoke test would visit
+    paths: string[];
+    // The preview has to be running, with no fix being written or verified: the crawl's
+    // errors from other routes would count against the fix
+    canStart: boolean;
+    onStart: (options: { clickElements: boolean }) => void;
+    onCancel: () => void;
+    onOpenRoute: (path: string) => void;
+    onFix: (problem: Diagnostic) => void;
+    // Queue one fix per failing file
+    onFixAll: (problems: Diagnostic[]) => void;
+    queuedFixes: number;
+    isFixing?: boolean;
+}
+
+const STATUS_ICONS: Record<RouteHealthStatus, ReactNode> = {
+    pending: <CircleDashed className="w-3.5 h-3.5 text-zinc-600" />,
+    visiting: <Loader2 className="w-3.5 h-3.5 text-blue-400 animate-spin" />,
+    ok: <CircleCheck className="w-3.5 h-3.5 text-emerald-400" />,
+    failed: <CircleX className="w-3.5 h-3.5 text-red-400" />,
+    unreachable: <CircleSlash className="w-3.5 h-3.5 text-amber-400" />,
+};
+
+// First runtime error per file, across every route
+function fixableProblems(routes: RouteHealth[]): Diagnostic[] {
+    const byFile = new Map<string, Diagnostic>();
+    for (const route of routes) {
+        for (const problem of route.runtimeErrors) {
+            if (!byFile.has(problem.file)) byFile.set(problem.file, problem);
+        }
+    }
+    return [...byFile.values()];
+}
+
+export const RouteHealthPanel = ({
+    crawl,
+    paths,
+    canStart,
+    onStart,
+    onCancel,
+    onOpenRoute,
+    onFix,
+    onFixAll,
+    queuedFixes,
+    isFixing,
+}: RouteHealthPanelProps) => {
+    const [clickElements, setClickElements] = useState(false);
+
+    const routes = crawl?.routes ?? [];
+    const failed = routes.filter(r => r.status === 'failed' || r.status === 'unreachable').length;
+    const fixable = fixableProblems(routes);
+
+    return (
+        <div className="flex flex-col h-full text-xs">
+            <div className="flex items-center justify-between gap-3 px-3 py-1.5 border-b border-zinc-800/60 text-zinc-500">
+                <span className="flex items-center gap-1.5 min-w-0 truncate">
+                    {crawl?.running ? (
+                        <>
+                            <Loader2 className="w-3 h-3 animate-spin" />
+                            Visiting {routes[crawl.current]?.path} ({crawl.current + 1}/{routes.length})
+                        </>
+                    ) : crawl?.finishedAt ? (
+                        `${routes.length - failed} of ${routes.length} routes healthy`
+                    ) : (
+                        `${paths.length} route${paths.length === 1 ? '' : 's'} to visit`
+                    )}
+                    {queuedFixes > 0 && <span className="text-purple-300">· {queuedFixes} fix{queuedFixes === 1 ? '' : 'es'} queued</span>}
+                </span>
+                <div className="flex items-center gap-3 flex-shrink-0">
+                    <label className="flex items-center gap-1.5 cursor-pointer select-none">
+                        <input
+                            type="checkbox"
+                            checked={clickElements}
+                            onChange={(e) => setClickElements(e.target.checked)}
+                            disabled={crawl?.running}
+                            className="accent-emerald-500"
+                        />
+                        Click buttons and links
+                    </label>
+                    {fixable.length > 0 && !crawl?.running && (
+                        <button
+                            onClick={() => onFixAll(fixable)}
+                            className="flex items-center gap-1 px-2 py-0.5 rounded text-purple-300 bg-purple-500/10 hover:bg-purple-500/20"
+                            title="Queue a fix for each file that raised an error"
+                        >
+                            <Wand2 className="w-3 h-3" />
+                            Fix {fixable.length} file{fixable.length === 1 ? '' : 's'}
+                        </button>
+                    )}
+                    {crawl?.running ? (
+                        <button
+                            onClick={onCancel}
+                            className="flex items-center gap-1 px-2 py-0.5 rounded text-zinc-300 bg-zinc-800 hover:bg-red-500/20 hover:text-red-300"
+                        >
+                            <Square className="w-3 h-3" />
+                            Stop
+                        </button>
+                    ) : (
+                        <button
+                            onClick={() => onStart({ clickElements })}
+                            disabled={!canStart || paths.length === 0}
+                            className="flex items-center gap-1 px-2 py-0.5 rounded text-emerald-300 bg-emerald-500/10 hover:bg-emerald-500/20 disabled:opacity-40 disabled:pointer-events-none"
+                            title="Open every route in the preview and collect the errors each one raises"
+                        >
+                            <Play className="w-3 h-3" />
+                            Run smoke test
+                        </button>
+                    )}
+                </div>
+            </div>
+
+            {routes.length === 0 ? (
+                <div className="flex-1 flex items-center justify-center text-zinc-600 px-6 text-center">
+                    Run a smoke test to open each route and see which pages raise errors
+                </div>
+            ) : (
+                <div className="flex-1 overflow-y-auto scrollbar-thin">
+                    {routes.map(route => (
+                        <div key={route.path} className="px-3 py-2 border-b border-zinc-800/60">
+                            <div className="group flex items-center gap-2">
+                                {STATUS_ICONS[route.status]}
+                                <span className="font-mono text-zinc-300">{route.path}</span>
+                                {route.status === 'unreachable' && <span className="text-amber-400/80">did not load</span>}
+                                {route.clicked > 0 && <span className="text-zinc-600">{route.clicked} clicked</span>}
+                                {(route.runtimeErrors.length > 0 || route.consoleErrors.length > 0) && (
+                                    <span className="text-red-300/80">
+                                        {route.runtimeErrors.length + route.consoleErrors.length} error{route.runtimeErrors.length + route.consoleErrors.length === 1 ? '' : 's'}
+                                    </span>
+                                )}
+                                <button
+                                    onClick={() => onOpenRoute(route.path)}
+                                    disabled={crawl?.running}
+                                    className="ml-auto p-1 rounded text-zinc-600 hover:text-zinc-300 opacity-0 group-hover:opacity-100 transition-opacity disabled:hidden"
+                                    title="Open in the preview"
+                                >
+                                    <ExternalLink className="w-3 h-3" />
+                                </button>
+                            </div>
+
+                            {route.runtimeErrors.map(problem => (
+                                <div key={diagnosticKey(problem)} className="flex items-start gap-2 mt-1.5 ml-5">
+                                    <div className="flex-1 min-w-0">
+                                        <p className="text-zinc-400 break-words">{problem.message}</p>
+                                        <p className="font-mono text-zinc-600 truncate">
+                                            {problem.file}{problem.line !== null && `:${problem.line}`}
+                                        </p>
+                                    </div>
+                                    <button
+                                        onClick={() => onFix(problem)}
+                                        disabled={isFixing || crawl?.running}
+                                        className="flex items-center gap-1 px-2 py-0.5 rounded text-purple-300 bg-purple-500/10 hover:bg-purple-500/20 disabled:opacity-40 flex-shrink-0"
+                                        title="Fix with AI"
+                                    >
+                                        <Wand2 className="w-3 h-3" />
+                                        Fix
+                                    </button>
+                                </div>
+                            ))}
+                            {route.consoleErrors.map(text => (
+                                <p key={text} className="mt-1.5 ml-5 text-zinc-500 font-mono break-words line-clamp-3">
+                                    console.error: {text}
+                                </p>
+                            ))}
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
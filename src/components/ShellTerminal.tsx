@@ -0,0 +1,75 @@
+import { useEffect, useRef } from 'react';
+import { Terminal } from '@xterm/xterm';
+import { FitAddon } from '@xterm/addon-fit';
+import type { WebContainerProcess } from '@webcontainer/api';
+import '@xterm/xterm/css/xterm.css';
+
+interface ShellTerminalProps {
+    spawnShell: (size: { cols: number; rows: number }) => Promise<WebContainerProcess>;
+}
+
+export const ShellTerminal = ({ spawnShell }: ShellTerminalProps) => {
+    const containerRef = useRef<HTMLDivElement>(null);
+
+    useEffect(() => {
+        const container = containerRef.current;
+        if (!container) return;
+
+        const terminal = new Terminal({
+            convertEol: true,
+            cursorBlink: true,
+            fontFamily: 'ui-monospace, SFMono-Regular, Menlo, monospace',
+            fontSize: 12,
+            theme: { background: '#09090b', foreground: '#d4d4d8', cursor: '#34d399' },
+        });
+        const fitAddon = new FitAddon();
+        terminal.loadAddon(fitAddon);
+        terminal.open(container);
+        fitAddon.fit();
+
+        let shell: WebContainerProcess | null = null;
+        let disposed = false;
+
+        // Refit on layout changes; skipped while the pane is hidden and has no size
+        const resizeObserver = new ResizeObserver(() => {
+            if (!fitAddon.proposeDimensions()) return;
+            fitAddon.fit();
+            shell?.resize({ cols: terminal.cols, rows: terminal.rows });
+        });
+        resizeObserver.observe(container);
+
+        spawnShell({ cols: terminal.cols, rows: terminal.rows })
+            .then(process => {
+                if (disposed) {
+                    process.kill();
+                    return;
+                }
+                shell = process;
+
+                process.output.pipeTo(new WritableStream({
+                    write(data) {
+                        terminal.write(data);
+                    },
+                })).catch(() => { /* stream closes when the shell is killed */ });
+
+                const input = process.input.getWriter();
+                terminal.onData(data => { input.write(data); });
+
+                process.exit.then(code => {
+                    if (!disposed) terminal.write(`\r\n[shell exited with code ${code}]\r\n`);
+                });
+            })
+            .catch(err => {
+                terminal.write(`\x1b[31mFailed to start shell: ${err instanceof Error ? err.message : err}\x1b[0m\r\n`);
+            });
+
+        return () => {
+            disposed = true;
+            resizeObserver.disconnect();
+            shell?.kill();
+            terminal.dispose();
+        };
+    }, [spawnShell]);
+
+    return <div ref={containerRef} className="h-full w-full px-2 py-1" />;
+};
@@ -1,5 +1,27 @@
 import { useRef, useEffect, useState } from 'react';
-import { Eye, ExternalLink, Loader2, Terminal, RefreshCw, AlertCircle, Monitor } from 'lucide-react';
+import type { ReactNode, RefObject } from 'react';
+import { Eye, ExternalLink, Loader2, Terminal, RefreshCw, AlertCircle, Monitor, SquareTerminal } from 'lucide-react';
+import type { LucideIcon } from 'lucide-react';
+import type { WebContainerProcess } from '@webcontainer/api';
+import { ShellTerminal } from './ShellTerminal';
+import { DeviceToolbar } from './DeviceToolbar';
+import { DeviceFrames } from './DeviceFrames';
+import { PreviewAddressBar } from './PreviewAddressBar';
+import type { PreviewNavigation } from '../utils/errorReporter';
+import { postPreviewNavigation } from '../utils/errorReporter';
+import type { DiscoveredRoute } from '../utils/routes';
+import type { DeviceSettings } from '../utils/viewports';
+import { DEFAULT_DEVICE_SETTINGS } from '../utils/viewports';
+
+// Extra tabs shown next to the dev server output and the shell
+export interface PreviewPanel {
+    id: string;
+    label: string;
+    icon: LucideIcon;
+    // Shown as a badge on the tab when non-zero
+    count?: number;
+    content: ReactNode;
+}
 
 interface WebContainerPreviewProps {
     previewUrl: string | null;
@@ -9,6 +31,13 @@ interface WebContainerPreviewProps {
     error: string | null;
     terminalOutput: string[];
     onRefresh?: () => void;
+    // Enables the interactive shell tab
+    spawnShell?: (size: { cols: number; rows: number }) => Promise<WebContainerProcess>;
+    panels?: PreviewPanel[];
+    // Routes listed in the address bar
+    routes?: DiscoveredRoute[];
+    // Container of the preview frames, for callers that drive the preview themselves
+    framesRef?: RefObject<HTMLDivElement | null>;
 }
 
 export const WebContainerPreview = ({
@@ -19,16 +48,57 @@ export const WebContainerPreview = ({
     error,
     terminalOutput,
     onRefresh,
+    spawnShell,
+    panels = [],
+    routes = [],
+    framesRef: externalFramesRef,
 }: WebContainerPreviewProps) => {
     const terminalRef = useRef<HTMLDivElement>(null);
+    const localFramesRef = useRef<HTMLDivElement>(null);
+    const framesRef = externalFramesRef ?? localFramesRef;
     const [showTerminal, setShowTerminal] = useState(true);
+    const [terminalTab, setTerminalTab] = useState('output');
+    // The shell is spawned on first open and then kept alive across tab switches
+    const [shellOpened, setShellOpened] = useState(false);
+    const [deviceSettings, setDeviceSettings] = useState<DeviceSettings>(DEFAULT_DEVICE_SETTINGS);
+    // Last location reported by the preview, tied to the URL it was reported for
+    const [frameLocation, setFrameLocation] = useState<{ url: string | null; path: string }>({ url: null, path: '/' });
+    const currentPath = frameLocation.url === previewUrl ? frameLocation.path : '/';
+
+    const openTab = (tab: string) => {
+        setTerminalTab(tab);
+        if (tab === 'shell') setShellOpened(true);
+    };
+
+    const tabs: Omit<PreviewPanel, 'content'>[] = [
+        { id: 'output', label: 'Dev server', icon: Terminal },
+        ...(spawnShell ? [{ id: 'shell', label: 'Shell', icon: SquareTerminal }] : []),
+        ...panels,
+    ];
+    const activePanel = panels.find(panel => panel.id === terminalTab);
 
     // Auto-scroll terminal
     useEffect(() => {
         if (terminalRef.current) {
             terminalRef.current.scrollTop = terminalRef.current.scrollHeight;
         }
-    }, [terminalOutput]);
+    }, [terminalOutput, terminalTab]);
+
+    // Follow navigation inside the preview frames; the reporter posts every location change
+    useEffect(() => {
+        const handleLocation = (event: MessageEvent) => {
+            if (event.data?.type !== 'PREVIEW_LOCATION' || typeof event.data.path !== 'string') return;
+            const frames = Array.from(framesRef.current?.querySelectorAll('iframe') ?? []);
+            if (!frames.some(frame => frame.contentWindow === event.source)) return;
+            setFrameLocation({ url: previewUrl, path: event.data.path });
+        };
+
+        window.addEventListener('message', handleLocation);
+        return () => window.removeEventListener('message', handleLocation);
+    }, [previewUrl, framesRef]);
+
+    // Frames are cross-origin, so navigation goes through the reporter; every frame follows
+    const navigate = (navigation: PreviewNavigation) => postPreviewNavigation(framesRef.current, navigation);
 
     // Hide terminal when preview is ready
     useEffect(() => {
@@ -92,7 +162,7 @@ export const WebContainerPreview = ({
                                 </button>
                             )}
                             <a
-                                href={previewUrl}
+                                href={new URL(currentPath, previewUrl).href}
                                 target="_blank"
                                 rel="noopener noreferrer"
                                 className="p-2 hover:bg-zinc-800 rounded-lg transition-colors text-zinc-500 hover:text-zinc-300"
@@ -108,7 +178,39 @@ export const WebContainerPreview = ({
             {/* Content */}
             <div className="flex-1 flex flex-col overflow-hidden">
                 {/* Terminal (collapsible) */}
-                {showTerminal && (
+                {showTerminal && tabs.length > 1 && (
+                    <div className="flex items-center gap-1 px-3 py-1.5 bg-zinc-900/60 border-b border-zinc-800">
+                        {tabs.map(({ id, label, icon: Icon, count }) => (
+                            <button
+                                key={id}
+                                onClick={() => openTab(id)}
+                                className={`flex items-center gap-1.5 px-2.5 py-1 rounded-md text-xs transition-colors ${terminalTab === id
+                                    ? 'bg-zinc-800 text-zinc-200'
+                                    : 'text-zinc-500 hover:text-zinc-300'
+                                    }`}
+                            >
+                                <Icon className="w-3.5 h-3.5" />
+                                {label}
+                                {!!count && (
+                                    <span className="px-1.5 rounded-full bg-red-500/20 text-red-300 text-[10px]">{count}</span>
+                                )}
+                            </button>
+                        ))}
+                    </div>
+                )}
+                {showTerminal && activePanel && (
+                    <div className={`bg-zinc-950 border-b border-zinc-800 ${previewUrl ? 'h-56' : 'flex-1'}`}>
+                        {activePanel.content}
+                    </div>
+                )}
+                {spawnShell && shellOpened && (
+                    <div
+                        className={`bg-zinc-950 border-b border-zinc-800 ${previewUrl ? 'h-56' : 'flex-1'} ${showTerminal && terminalTab === 'shell' ? '' : 'hidden'}`}
+                    >
+                        <ShellTerminal spawnShell={spawnShell} />
+                    </div>
+                )}
+                {showTerminal && terminalTab === 'output' && (
                     <div
                         ref={terminalRef}
                         className={`
@@ -142,8 +244,15 @@ export const WebContainerPreview = ({
                     </div>
                 )}
 
+                {previewUrl && !error && (
+                    <>
+                        <PreviewAddressBar path={currentPath} routes={routes} onNavigate={navigate} />
+                        <DeviceToolbar settings={deviceSettings} onChange={setDeviceSettings} />
+                    </>
+                )}
+
                 {/* Preview iframe or loading state */}
-                <div className="flex-1 relative bg-zinc-900">
+                <div ref={framesRef} className="flex-1 relative bg-zinc-900">
                     {error ? (
                         <div className="flex flex-col items-center justify-center h-full text-center p-8">
                             <div className="p-4 rounded-full bg-red-500/10 mb-4">
@@ -153,11 +262,7 @@ export const WebContainerPreview = ({
                             <p className="text-zinc-500 text-sm mt-2 max-w-md">{error}</p>
                         </div>
                     ) : previewUrl ? (
-                        <iframe
-                            src={previewUrl}
-                            className="w-full h-full border-0 bg-white"
-                            title="Preview"
-                        />
+                        <DeviceFrames url={previewUrl} settings={deviceSettings} />
                     ) : !isBooting && !isInstalling ? (
                         <div className="flex flex-col items-center justify-center h-full text-center p-8">
                             <div className="p-6 rounded-2xl bg-zinc-800/50 border border-zinc-700/50 mb-6">
@@ -1,8 +1,10 @@
 import { useCallback, useState } from 'react';
-import { Upload, FileArchive, Loader2 } from 'lucide-react';
+import { Upload, FileArchive, FolderOpen, Loader2 } from 'lucide-react';
+import type { ProjectImport } from '../utils/importUtils';
+import { ACCEPTED_IMPORT_EXTENSIONS, importFromFile, importFromFileList, importFromDataTransfer } from '../utils/importUtils';
 
 interface ZipUploadProps {
-    onUpload: (file: File) => void;
+    onUpload: (project: ProjectImport) => void;
     isLoading?: boolean;
 }
 
@@ -23,19 +25,27 @@ export const ZipUpload = ({ onUpload, isLoading }: ZipUploadProps) => {
         e.preventDefault();
         setIsDragging(false);
 
-        const files = Array.from(e.dataTransfer.files);
-        const zipFile = files.find(f => f.name.endsWith('.zip'));
-
-        if (zipFile) {
-            onUpload(zipFile);
+        const project = importFromDataTransfer(e.dataTransfer);
+        if (project) {
+            onUpload(project);
         }
     }, [onUpload]);
 
     const handleFileChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
         const file = e.target.files?.[0];
-        if (file) {
-            onUpload(file);
+        const project = file ? importFromFile(file) : null;
+        if (project) {
+            onUpload(project);
+        }
+        e.target.value = '';
+    }, [onUpload]);
+
+    const handleFolderChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
+        const project = importFromFileList(Array.from(e.target.files ?? []));
+        if (project) {
+            onUpload(project);
         }
+        e.target.value = '';
     }, [onUpload]);
 
     return (
@@ -57,7 +67,7 @@ export const ZipUpload = ({ onUpload, isLoading }: ZipUploadProps) => {
         >
             <input
                 type="file"
-                accept=".zip"
+                accept={ACCEPTED_IMPORT_EXTENSIONS.join(',')}
                 onChange={handleFileChange}
                 className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
                 disabled={isLoading}
@@ -70,7 +80,7 @@ export const ZipUpload = ({ onUpload, isLoading }: ZipUploadProps) => {
                             <Loader2 className="w-12 h-12 text-emerald-400 animate-spin" />
                         </div>
                         <div className="text-center">
-                            <p className="text-xl font-semibold text-zinc-200">Extracting ZIP...</p>
+                            <p className="text-xl font-semibold text-zinc-200">Importing project...</p>
                             <p className="text-sm text-zinc-500 mt-2">Please wait</p>
                         </div>
                     </>
@@ -91,7 +101,7 @@ export const ZipUpload = ({ onUpload, isLoading }: ZipUploadProps) => {
                         </div>
                         <div className="text-center">
                             <p className="text-xl font-semibold text-zinc-200">
-                                {isDragging ? 'Drop ZIP file here' : 'Upload ZIP file'}
+                                {isDragging ? 'Drop project here' : 'Upload project'}
                             </p>
                             <p className="text-sm text-zinc-500 mt-2">
                                 Drag and drop or click to browse
@@ -99,8 +109,20 @@ export const ZipUpload = ({ onUpload, isLoading }: ZipUploadProps) => {
                         </div>
                         <div className="flex items-center gap-2 px-4 py-2 rounded-full bg-zinc-800/50 border border-zinc-700">
                             <FileArchive className="w-4 h-4 text-emerald-400" />
-                            <span className="text-xs text-zinc-400">Supports .zip files</span>
+                            <span className="text-xs text-zinc-400">.zip, .tar.gz, a folder or a single component file</span>
                         </div>
+                        {/* Sits above the full-size file input; webkitdirectory isn't in React's input props */}
+                        <label className="relative z-10 pointer-events-auto flex items-center gap-2 px-3 py-1.5 rounded-lg text-sm bg-zinc-800 hover:bg-zinc-700 text-zinc-300 cursor-pointer transition-colors">
+                            <FolderOpen className="w-4 h-4" />
+                            Choose folder
+                            <input
+                                type="file"
+                                ref={input => input?.setAttribute('webkitdirectory', '')}
+                                onChange={handleFolderChange}
+                                className="hidden"
+                                disabled={isLoading}
+                            />
+                        </label>
                     </>
                 )}
             </div>
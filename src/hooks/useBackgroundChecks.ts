@@ -0,0 +1,114 @@
+import { useState, useEffect, useRef, useMemo } from 'react';
+import type { FileNode } from '../utils/fileUtils';
+import type { Diagnostic } from '../utils/diagnostics';
+import { parseTscOutput, parseEslintJson } from '../utils/diagnostics';
+import type { CommandResult } from './useWebContainer';
+
+// Wait for writes to settle before re-checking
+const CHECK_DEBOUNCE_MS = 1500;
+
+const ESLINT_CONFIGS = [
+    'eslint.config.js', 'eslint.config.mjs', 'eslint.config.cjs', 'eslint.config.ts',
+    '.eslintrc', '.eslintrc.js', '.eslintrc.cjs', '.eslintrc.json', '.eslintrc.yml', '.eslintrc.yaml',
+];
+
+// Projects listed by a solution-style config ("files": [] plus references), which plain tsc skips
+function referencedProjects(tsconfig: string): string[] {
+    const references = tsconfig.match(/"references"\s*:\s*\[([^\]]*)\]/);
+    return references ? [...references[1].matchAll(/"path"\s*:\s*"([^"]+)"/g)].map(m => m[1]) : [];
+}
+
+interface UseBackgroundChecksOptions {
+    files: FileNode[];
+    // Container write counter; every change schedules a check
+    fsVersion: number;
+    runCommand: (command: string, args: string[]) => Promise<CommandResult>;
+    // Checks only run while the dev server is up
+    enabled: boolean;
+}
+
+interface UseBackgroundChecksReturn {
+    checkProblems: Diagnostic[];
+    isChecking: boolean;
+    hasTypeScript: boolean;
+    hasEslint: boolean;
+}
+
+// Which checkers the project is configured for, from its root files
+function detectCheckers(files: FileNode[]): { hasTypeScript: boolean; tsProjects: string; hasEslint: boolean } {
+    const rootFiles = files.length === 1 && files[0].type === 'directory' ? files[0].children ?? [] : files;
+    const names = new Set(rootFiles.filter(f => f.type === 'file').map(f => f.name));
+    const tsconfig = rootFiles.find(f => f.type === 'file' && f.name === 'tsconfig.json');
+    return {
+        hasTypeScript: Boolean(tsconfig),
+        // Joined so the check effect only re-runs when the list changes
+        tsProjects: referencedProjects(tsconfig?.content ?? '').join('\n'),
+        hasEslint: ESLINT_CONFIGS.some(name => names.has(name)),
+    };
+}
+
+export function useBackgroundChecks({
+    files,
+    fsVersion,
+    runCommand,
+    enabled,
+}: UseBackgroundChecksOptions): UseBackgroundChecksReturn {
+    const [checkProblems, setCheckProblems] = useState<Diagnostic[]>([]);
+    const [isChecking, setIsChecking] = useState(false);
+    const { hasTypeScript, tsProjects, hasEslint } = useMemo(() => detectCheckers(files), [files]);
+
+    const runningRef = useRef(false);
+    // A write landed while a check was running; check again when it finishes
+    const pendingRef = useRef(false);
+
+    useEffect(() => {
+        if (!enabled || (!hasTypeScript && !hasEslint)) return;
+
+        const runChecks = async () => {
+            if (runningRef.current) {
+                pendingRef.current = true;
+                return;
+            }
+            runningRef.current = true;
+            setIsChecking(true);
+
+            try {
+                do {
+                    pendingRef.current = false;
+                    const results: Diagnostic[] = [];
+
+                    // --no keeps npx from downloading a checker the project does not have installed
+                    if (hasTypeScript) {
+                        // Each referenced project on its own with --noEmit: build mode would write .js and
+                        // .tsbuildinfo files into the project for any reference that does not set noEmit
+                        for (const project of tsProjects ? tsProjects.split('\n') : ['tsconfig.json']) {
+                            const { output } = await runCommand('npx', ['--no', 'tsc', '-p', project, '--noEmit', '--pretty', 'false']);
+                            results.push(...parseTscOutput(output));
+                        }
+                    }
+                    if (hasEslint) {
+                        const { output } = await runCommand('npx', ['--no', 'eslint', '.', '-f', 'json']);
+                        results.push(...parseEslintJson(output));
+                    }
+
+                    setCheckProblems(results);
+                } while (pendingRef.current);
+            } catch (err) {
+                console.warn('Background checks failed:', err);
+            } finally {
+                runningRef.current = false;
+                setIsChecking(false);
+            }
+        };
+
+        const timer = setTimeout(runChecks, CHECK_DEBOUNCE_MS);
+        return () => clearTimeout(timer);
+    }, [fsVersion, enabled, hasTypeScript, tsProjects, hasEslint, runCommand]);
+
+    return {
+        checkProblems: enabled ? checkProblems : [],
+        isChecking,
+        hasTypeScript,
+        hasEslint,
+    };
+}
@@ -0,0 +1,161 @@
+import { useState, useEffect, useRef, useMemo, useCallback } from 'react';
+import type { Diagnostic } from '../utils/diagnostics';
+import { isRebuildMarker, diagnosticIdentity } from '../utils/diagnostics';
+
+// Give up waiting for an HMR update or reload and start watching anyway
+const HMR_WAIT_MS = 5000;
+// How long errors are collected once the update has landed
+const WATCH_WINDOW_MS = 4000;
+// Logged by updateFile for every write, including the fix's own; it says nothing about a rebuild
+const EDITOR_WRITE_LOG = /^✏️ Updated: /;
+
+// An applied fix whose effect on the preview is being watched
+export interface FixVerification {
+    // History entries the fix wrote
+    entryIds: string[];
+    paths: string[];
+    // Problems the fix was asked to solve
+    targets: Diagnostic[];
+    // Errors present before the fix, which do not count against it
+    baseline: string[];
+    // Last dev-server chunk once the fix was written; only rebuild lines after it count
+    outputMark: string | undefined;
+    startedAt: number;
+}
+
+export type VerificationPhase = 'waiting' | 'watching';
+
+export interface VerificationResult {
+    confirmed: boolean;
+    // Why the fix was rejected
+    reason?: string;
+    // Nothing new broke, but the targets are type or lint problems the preview cannot show fixed
+    unverified?: boolean;
+    // Errors that were not there before the fix
+    newErrors: Diagnostic[];
+}
+
+interface UseFixVerificationOptions {
+    problems: Diagnostic[];
+    terminalOutput: string[];
+    onSettled: (verification: FixVerification, result: VerificationResult) => void;
+}
+
+interface UseFixVerificationReturn {
+    verification: FixVerification | null;
+    phase: VerificationPhase | null;
+    startVerification: (fix: Pick<FixVerification, 'entryIds' | 'paths' | 'targets'>) => void;
+    cancelVerification: () => void;
+}
+
+// Type and lint results lag a full check run behind the write, so only build and runtime errors decide
+const countsAsError = (d: Diagnostic) =>
+    d.severity !== 'warning' && d.source !== 'typescript' && d.source !== 'eslint';
+
+// Last chunk that can mark a position; write logs repeat verbatim, so lastIndexOf could skip past a rebuild
+function markOf(output: string[]): string | undefined {
+    for (let i = output.length - 1; i >= 0; i--) {
+        if (!EDITOR_WRITE_LOG.test(output[i])) return output[i];
+    }
+    return undefined;
+}
+
+// Output written after the mark; everything if the mark has scrolled out of the buffer
+function chunksAfter(output: string[], mark: string | undefined): string[] {
+    const index = mark === undefined ? -1 : output.lastIndexOf(mark);
+    return index === -1 ? output : output.slice(index + 1);
+}
+
+export function evaluateVerification(verification: FixVerification, problems: Diagnostic[]): VerificationResult {
+    const errors = problems.filter(countsAsError);
+    const targets = new Set(verification.targets.map(diagnosticIdentity));
+
+    if (errors.some(e => targets.has(diagnosticIdentity(e)))) {
+        return { confirmed: false, reason: 'the original error is still reported', newErrors: [] };
+    }
+
+    const baseline = new Set(verification.baseline);
+    const newErrors = errors.filter(e => !baseline.has(diagnosticIdentity(e)));
+    if (newErrors.length > 0) {
+        return {
+            confirmed: false,
+            reason: `it introduced ${newErrors.length === 1 ? 'a new error' : `${newErrors.length} new errors`}`,
+            newErrors,
+        };
+    }
+    // Those only clear on the next check run, so a clean preview says nothing about them
+    if (verification.targets.length > 0 && !verification.targets.some(countsAsError)) {
+        return { confirmed: false, unverified: true, newErrors: [] };
+    }
+    return { confirmed: true, newErrors: [] };
+}
+
+export function useFixVerification({
+    problems,
+    terminalOutput,
+    onSettled,
+}: UseFixVerificationOptions): UseFixVerificationReturn {
+    const [verification, setVerification] = useState<FixVerification | null>(null);
+    // startedAt of the verification whose HMR wait ran out
+    const [waitExpiredFor, setWaitExpiredFor] = useState<number | null>(null);
+
+    const problemsRef = useRef(problems);
+    const outputRef = useRef(terminalOutput);
+    const onSettledRef = useRef(onSettled);
+
+    useEffect(() => {
+        problemsRef.current = problems;
+        outputRef.current = terminalOutput;
+        onSettledRef.current = onSettled;
+    }, [problems, terminalOutput, onSettled]);
+
+    const rebuilt = useMemo(
+        () => verification !== null && chunksAfter(terminalOutput, verification.outputMark).some(isRebuildMarker),
+        [verification, terminalOutput]
+    );
+
+    const phase: VerificationPhase | null = verification === null
+        ? null
+        : rebuilt || waitExpiredFor === verification.startedAt ? 'watching' : 'waiting';
+
+    // A fix applied while another is being watched joins it and restarts the wait
+    const startVerification = useCallback((fix: Pick<FixVerification, 'entryIds' | 'paths' | 'targets'>) => {
+        const baseline = problemsRef.current.filter(countsAsError).map(diagnosticIdentity);
+        setVerification(prev => ({
+            entryIds: [...(prev?.entryIds ?? []), ...fix.entryIds],
+            paths: [...new Set([...(prev?.paths ?? []), ...fix.paths])],
+            targets: [...(prev?.targets ?? []), ...fix.targets],
+            baseline: prev?.baseline ?? baseline,
+            outputMark: markOf(outputRef.current),
+            startedAt: Date.now(),
+        }));
+    }, []);
+
+    const cancelVerification = useCallback(() => {
+        setVerification(null);
+    }, []);
+
+    // Not every write is announced (e.g. files outside the module graph), so stop waiting eventually
+    useEffect(() => {
+        if (!verification || phase !== 'waiting') return;
+        const timer = setTimeout(() => setWaitExpiredFor(verification.startedAt), HMR_WAIT_MS);
+        return () => clearTimeout(timer);
+    }, [verification, phase]);
+
+    // Collect errors for the window, then judge the fix
+    useEffect(() => {
+        if (!verification || phase !== 'watching') return;
+        const timer = setTimeout(() => {
+            setVerification(null);
+            onSettledRef.current(verification, evaluateVerification(verification, problemsRef.current));
+        }, WATCH_WINDOW_MS);
+        return () => clearTimeout(timer);
+    }, [verification, phase]);
+
+    return {
+        verification,
+        phase,
+        startVerification,
+        cancelVerification,
+    };
+}
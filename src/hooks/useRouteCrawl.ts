@@ -0,0 +1,181 @@
+import { useState, useRef, useCallback, useEffect } from 'react';
+import type { Diagnostic } from '../utils/diagnostics';
+import { diagnosticKey } from '../utils/diagnostics';
+import type { PreviewNavigation } from '../utils/errorReporter';
+
+// Give up on a route whose page hasn't reported its location by then
+const LOAD_TIMEOUT_MS = 15000;
+// Errors are collected for this long after the page loads, and again after clicking through it
+const SETTLE_MS = 2500;
+const EXERCISE_TIMEOUT_MS = 15000;
+
+export type RouteHealthStatus = 'pending' | 'visiting' | 'ok' | 'failed' | 'unreachable';
+
+// What happened on one route during a smoke test
+export interface RouteHealth {
+    path: string;
+    status: RouteHealthStatus;
+    runtimeErrors: Diagnostic[];
+    consoleErrors: string[];
+    // Elements clicked while exercising the page
+    clicked: number;
+}
+
+export interface RouteCrawl {
+    routes: RouteHealth[];
+    // Index of the route being visited
+    current: number;
+    clickElements: boolean;
+    running: boolean;
+    startedAt: number;
+    finishedAt?: number;
+}
+
+interface UseRouteCrawlOptions {
+    navigate: (navigation: PreviewNavigation) => void;
+}
+
+interface UseRouteCrawlReturn {
+    crawl: RouteCrawl | null;
+    startCrawl: (paths: string[], options: { clickElements: boolean }) => void;
+    cancelCrawl: () => void;
+    clearCrawl: () => void;
+    // Fed by the preview's message handlers; attributed to the route being visited
+    recordRuntimeError: (diagnostic: Diagnostic) => void;
+    recordConsoleError: (text: string) => void;
+}
+
+const samePath = (a: string, b: string) =>
+    a.split(/[?#]/)[0].replace(/\/+$/, '') === b.split(/[?#]/)[0].replace(/\/+$/, '');
+
+function delay(ms: number, signal: AbortSignal): Promise<void> {
+    return new Promise(resolve => {
+        const timeoutId = setTimeout(resolve, ms);
+        signal.addEventListener('abort', () => {
+            clearTimeout(timeoutId);
+            resolve();
+        }, { once: true });
+    });
+}
+
+// Resolve with the first preview message of the type that matches; null on timeout or abort
+function waitForMessage<T>(type: string, matches: (data: T) => boolean, timeoutMs: number, signal: AbortSignal): Promise<T | null> {
+    return new Promise(resolve => {
+        const finish = (data: T | null) => {
+            clearTimeout(timeoutId);
+            window.removeEventListener('message', handleMessage);
+            resolve(data);
+        };
+        const handleMessage = (event: MessageEvent) => {
+            if (event.data?.type === type && matches(event.data as T)) finish(event.data as T);
+        };
+        const timeoutId = setTimeout(() => finish(null), timeoutMs);
+        window.addEventListener('message', handleMessage);
+        signal.addEventListener('abort', () => finish(null), { once: true });
+    });
+}
+
+// Visits each route in the preview, optionally clicks through it, and records the errors each one raised
+export function useRouteCrawl({ navigate }: UseRouteCrawlOptions): UseRouteCrawlReturn {
+    const [crawl, setCrawl] = useState<RouteCrawl | null>(null);
+    const abortRef = useRef<AbortController | null>(null);
+    // Route errors are attributed to; -1 outside a crawl
+    const currentRef = useRef(-1);
+
+    const updateRoute = useCallback((index: number, update: (route: RouteHealth) => RouteHealth) => {
+        setCrawl(prev => prev && {
+            ...prev,
+            routes: prev.routes.map((route, i) => i === index ? update(route) : route),
+        });
+    }, []);
+
+    const startCrawl = useCallback((paths: string[], { clickElements }: { clickElements: boolean }) => {
+        abortRef.current?.abort();
+        const controller = new AbortController();
+        abortRef.current = controller;
+        const { signal } = controller;
+
+        setCrawl({
+            routes: paths.map(path => ({ path, status: 'pending', runtimeErrors: [], consoleErrors: [], clicked: 0 })),
+            current: 0,
+            clickElements,
+            running: true,
+            startedAt: Date.now(),
+        });
+
+        const run = async () => {
+            for (let index = 0; index < paths.length && !signal.aborted; index++) {
+                const path = paths[index];
+                currentRef.current = index;
+                setCrawl(prev => prev && { ...prev, current: index });
+                updateRoute(index, route => ({ ...route, status: 'visiting' }));
+
+                // The reporter posts the location as soon as the new page starts
+                const loaded = waitForMessage<{ path: string }>('PREVIEW_LOCATION', data => samePath(data.path, path), LOAD_TIMEOUT_MS, signal);
+                navigate({ action: 'go', path });
+                if (!await loaded) {
+                    if (!signal.aborted) updateRoute(index, route => ({ ...route, status: 'unreachable' }));
+                    continue;
+                }
+                await delay(SETTLE_MS, signal);
+
+                if (clickElements && !signal.aborted) {
+                    const exercised = waitForMessage<{ clicked: number }>('PREVIEW_EXERCISED', () => true, EXERCISE_TIMEOUT_MS, signal);
+                    navigate({ action: 'exercise' });
+                    const result = await exercised;
+                    if (result) updateRoute(index, route => ({ ...route, clicked: result.clicked }));
+                    await delay(SETTLE_MS, signal);
+                }
+
+                if (signal.aborted) break;
+                updateRoute(index, route => ({
+                    ...route,
+                    status: route.runtimeErrors.length > 0 || route.consoleErrors.length > 0 ? 'failed' : 'ok',
+                }));
+            }
+
+            // A newer crawl has taken over
+            if (abortRef.current !== controller) return;
+            abortRef.current = null;
+            currentRef.current = -1;
+            setCrawl(prev => prev && {
+                ...prev,
+                running: false,
+                finishedAt: Date.now(),
+                // Routes the crawl never finished go back to pending
+                routes: prev.routes.map(route => route.status === 'visiting' ? { ...route, status: 'pending' } : route),
+            });
+        };
+        run();
+    }, [navigate, updateRoute]);
+
+    const cancelCrawl = useCallback(() => {
+        abortRef.current?.abort();
+    }, []);
+
+    const clearCrawl = useCallback(() => {
+        abortRef.current?.abort();
+        setCrawl(null);
+    }, []);
+
+    const recordRuntimeError = useCallback((diagnostic: Diagnostic) => {
+        const index = currentRef.current;
+        if (index === -1) return;
+        updateRoute(index, route => route.runtimeErrors.some(d => diagnosticKey(d) === diagnosticKey(diagnostic))
+            ? route
+            : { ...route, runtimeErrors: [...route.runtimeErrors, diagnostic] });
+    }, [updateRoute]);
+
+    const recordConsoleError = useCallback((text: string) => {
+        const index = currentRef.current;
+        if (index === -1) return;
+        updateRoute(index, route => route.consoleErrors.includes(text)
+            ? route
+            : { ...route, consoleErrors: [...route.consoleErrors, text] });
+    }, [updateRoute]);
+
+    // Stop driving the preview when the component goes away
+    useEffect(() => () => abortRef.current?.abort(), []);
+
+    return { crawl, startCrawl, cancelCrawl, clearCrawl, recordRuntimeError, recordConsoleError };
+}
@@ -1,7 +1,28 @@
 import { useState, useCallback, useRef, useEffect } from 'react';
 import { WebContainer } from '@webcontainer/api';
-import type { FileSystemTree } from '@webcontainer/api';
-import { getErrorReporterScript } from '../utils/errorReporter';
+import type { FileSystemTree, WebContainerProcess } from '@webcontainer/api';
+import { getErrorReporterSource, injectErrorReporter } from '../utils/errorReporter';
+import { hashPackageJson, loadSnapshot, saveSnapshot, evictSnapshots } from '../utils/cache';
+import { formatBytes } from '../utils/fileUtils';
+import type { ConflictResolutions, DependencyPlan } from '../utils/dependencies';
+import { parsePackageJson, planDependencies, mergePackageJson } from '../utils/dependencies';
+import type { ProjectTemplate, ProjectType } from '../utils/projectTemplates';
+import { BASE_PACKAGE_JSON, BASE_FILES, TEMPLATES } from '../utils/projectTemplates';
+import { mergeFileSystemTrees } from '../utils/zipUtils';
+
+// Where the base node_modules came from on this page load
+export type DepsSource = 'snapshot' | 'install';
+
+export interface MountOptions {
+    resolutions?: ConflictResolutions;
+    // Template the project runs on (default: Vite + React)
+    projectType?: ProjectType;
+}
+
+export interface CommandResult {
+    exitCode: number;
+    output: string;
+}
 
 interface UseWebContainerReturn {
     isBooting: boolean;
@@ -12,9 +33,14 @@ interface UseWebContainerReturn {
     terminalOutput: string[];
     isPreWarmed: boolean;
     isPreWarming: boolean;
-    mountFiles: (files: FileSystemTree) => Promise<void>;
+    depsSource: DepsSource | null;
+    mountFiles: (files: FileSystemTree, options?: MountOptions) => Promise<void>;
     startDevServer: () => Promise<void>;
-    updateFile: (path: string, content: string) => Promise<void>;
+    updateFile: (path: string, content: string) => Promise<boolean>;
+    spawnShell: (size: { cols: number; rows: number }) => Promise<WebContainerProcess>;
+    runCommand: (command: string, args: string[]) => Promise<CommandResult>;
+    // Bumped after every mount and file write
+    fsVersion: number;
     reset: () => void;
 }
 
@@ -23,116 +49,43 @@ let webcontainerInstance: WebContainer | null = null;
 let bootPromise: Promise<WebContainer> | null = null;
 let preWarmPromise: Promise<void> | null = null;
 let isPreWarmedFlag = false;
+let depsSourceFlag: DepsSource | null = null;
+// Preview scripts last for the container's lifetime, so a later template has to replace it
+let previewScriptRegistered = false;
+
+// Top-level entries kept between mounts: the pre-installed packages and their lockfile
+const PERSISTENT_ENTRIES = new Set(['node_modules', 'package-lock.json']);
+
+// Remove what earlier mounts left behind: the pre-warm's Vite + React files or a previous project
+async function clearMountedFiles(instance: WebContainer): Promise<void> {
+    for (const entry of await instance.fs.readdir('/')) {
+        if (!PERSISTENT_ENTRIES.has(entry)) await instance.fs.rm(entry, { recursive: true, force: true });
+    }
+}
 
-// Base package.json with 16 common dependencies
-const BASE_PACKAGE_JSON = {
-    name: 'preview-project',
-    private: true,
-    version: '0.0.0',
-    type: 'module',
-    scripts: {
-        dev: 'vite --host',
-        build: 'vite build',
-    },
-    dependencies: {
-        // Core React
-        'react': '^18.3.1',
-        'react-dom': '^18.3.1',
-        // Routing
-        'react-router-dom': '^7.1.1',
-        // Animation
-        'framer-motion': '^11.14.4',
-        // Icons
-        'lucide-react': '^0.460.0',
-        // Styling utilities
-        'clsx': '^2.1.1',
-        'tailwind-merge': '^2.5.5',
-        'class-variance-authority': '^0.7.1',
-        // HTTP
-        'axios': '^1.7.9',
-        // State management
-        'zustand': '^5.0.2',
-        // Date utilities
-        'date-fns': '^4.1.0',
-    },
-    devDependencies: {
-        // Vite & React plugin
-        '@vitejs/plugin-react': '^4.3.4',
-        'vite': '^6.0.3',
-        // TypeScript
-        'typescript': '^5.7.2',
-        '@types/react': '^18.3.12',
-        '@types/react-dom': '^18.3.1',
-        // Tailwind CSS
-        'tailwindcss': '^3.4.17',
-        'postcss': '^8.4.49',
-        'autoprefixer': '^10.4.20',
-    },
-};
-
-const BASE_FILES: FileSystemTree = {
-    'package.json': {
-        file: { contents: JSON.stringify(BASE_PACKAGE_JSON, null, 2) },
-    },
-    'vite.config.ts': {
-        file: {
-            contents: `import { defineConfig } from 'vite'
-import react from '@vitejs/plugin-react'
-export default defineConfig({ plugins: [react()] })`,
-        },
-    },
-    'index.html': {
-        file: {
-            contents: `<!DOCTYPE html>
-<html lang="en">
-  <head>
-    <meta charset="UTF-8" />
-    <meta name="viewport" content="width=device-width, initial-scale=1.0" />
-    <title>Preview</title>
-  </head>
-  <body>
-    <div id="root"></div>
-    <script type="module" src="/src/main.tsx"></script>
-  </body>
-</html>`,
-        },
-    },
-    'tailwind.config.js': {
-        file: {
-            contents: `export default {
-  content: ["./index.html", "./src/**/*.{js,ts,jsx,tsx}"],
-  theme: { extend: {} },
-  plugins: [],
-}`,
-        },
-    },
-    'postcss.config.js': {
-        file: {
-            contents: `export default {
-  plugins: { tailwindcss: {}, autoprefixer: {} },
-}`,
-        },
-    },
-    'src': {
-        directory: {
-            'main.tsx': {
-                file: {
-                    contents: `import React from 'react'
-import ReactDOM from 'react-dom/client'
-import App from './App'
-import './index.css'
-ReactDOM.createRoot(document.getElementById('root')!).render(<React.StrictMode><App /></React.StrictMode>)`,
-                },
-            },
-            'App.tsx': {
-                file: { contents: `export default function App() { return <div className="p-4 text-white bg-zinc-900 min-h-screen">Loading...</div> }` },
-            },
-            'index.css': {
-                file: { contents: `@tailwind base;\n@tailwind components;\n@tailwind utilities;` },
-            },
-        },
-    },
-};
+// String contents of a top-level file in the tree, if present
+function readTextFile(tree: FileSystemTree, name: string): string | undefined {
+    const entry = tree[name];
+    if (entry && 'file' in entry && 'contents' in entry.file && typeof entry.file.contents === 'string') {
+        return entry.file.contents;
+    }
+    return undefined;
+}
+
+// Inject the error reporter into the root index.html, or into every .html file
+function injectReporterIntoTree(tree: FileSystemTree, allPages: boolean): number {
+    let count = 0;
+    for (const [name, entry] of Object.entries(tree)) {
+        if ('directory' in entry) {
+            if (allPages) count += injectReporterIntoTree(entry.directory, true);
+        } else if ((allPages ? name.endsWith('.html') : name === 'index.html')
+            && 'contents' in entry.file && typeof entry.file.contents === 'string') {
+            tree[name] = { file: { contents: injectErrorReporter(entry.file.contents) } };
+            count++;
+        }
+    }
+    return count;
+}
 
 export function useWebContainer(): UseWebContainerReturn {
     const [isBooting, setIsBooting] = useState(false);
@@ -143,8 +96,13 @@ export function useWebContainer(): UseWebContainerReturn {
     const [terminalOutput, setTerminalOutput] = useState<string[]>([]);
     const [isPreWarmed, setIsPreWarmed] = useState(false);
     const [isPreWarming, setIsPreWarming] = useState(false);
+    const [depsSource, setDepsSource] = useState<DepsSource | null>(depsSourceFlag);
+    const [fsVersion, setFsVersion] = useState(0);
 
     const processRef = useRef<any>(null);
+    // Dependency delta for the mounted project; null means "unknown, run a full install"
+    const dependencyPlanRef = useRef<DependencyPlan | null>(null);
+    const templateRef = useRef<ProjectTemplate>(TEMPLATES['vite-react']);
 
     const appendOutput = useCallback((line: string) => {
         if (line.includes('[0K') || line.includes('[1G') || line.trim().length < 2) return;
@@ -188,7 +146,37 @@ export function useWebContainer(): UseWebContainerReturn {
         return bootPromise;
     }, [appendOutput]);
 
-    // Pre-warm: Install base 16 packages on page load
+    // Restore base node_modules from the IndexedDB snapshot, if one matches
+    const restoreSnapshot = useCallback(async (instance: WebContainer, cacheKey: string): Promise<boolean> => {
+        const snapshot = await loadSnapshot(cacheKey);
+        if (!snapshot) return false;
+
+        try {
+            appendOutput(`💾 Restoring cached node_modules (${formatBytes(snapshot.byteLength)})...`);
+            await instance.fs.mkdir('node_modules', { recursive: true });
+            // mount() transfers the buffer, so hand it a copy and keep the cached one intact
+            await instance.mount(snapshot.slice(), { mountPoint: 'node_modules' });
+            appendOutput('✅ node_modules restored from cache');
+            return true;
+        } catch (err) {
+            appendOutput(`⚠️ Cached node_modules unusable, reinstalling: ${err}`);
+            return false;
+        }
+    }, [appendOutput]);
+
+    // Export installed node_modules and store them for the next page load
+    const storeSnapshot = useCallback(async (instance: WebContainer, cacheKey: string) => {
+        try {
+            const snapshot = await instance.export('node_modules', { format: 'binary' });
+            await saveSnapshot(cacheKey, snapshot, 'Vite + React base packages');
+            const evicted = await evictSnapshots();
+            appendOutput(`💾 Cached node_modules snapshot (${formatBytes(snapshot.byteLength)})${evicted ? `, evicted ${evicted} old` : ''}`);
+        } catch (err) {
+            appendOutput(`⚠️ Could not cache node_modules: ${err}`);
+        }
+    }, [appendOutput]);
+
+    // Pre-warm: restore base packages from cache, or install them on first load
     const preWarm = useCallback(async () => {
         if (isPreWarmedFlag || preWarmPromise) return preWarmPromise;
 
@@ -197,11 +185,21 @@ export function useWebContainer(): UseWebContainerReturn {
 
             try {
                 const instance = await boot();
-                appendOutput('📦 Installing 16 base packages...');
-                appendOutput('⏳ This runs once on page load (~2-3 min)...');
-
                 await instance.mount(BASE_FILES);
 
+                const cacheKey = await hashPackageJson(BASE_PACKAGE_JSON);
+                if (await restoreSnapshot(instance, cacheKey)) {
+                    isPreWarmedFlag = true;
+                    depsSourceFlag = 'snapshot';
+                    setIsPreWarmed(true);
+                    setDepsSource('snapshot');
+                    appendOutput('✅ Base packages ready! Ready for projects.');
+                    return;
+                }
+
+                appendOutput('📦 Installing 16 base packages...');
+                appendOutput('⏳ This runs once, later loads restore from cache (~2-3 min)...');
+
                 const installProcess = await instance.spawn('npm', [
                     'install', '--prefer-offline', '--no-audit', '--no-fund', '--legacy-peer-deps',
                 ]);
@@ -215,8 +213,13 @@ export function useWebContainer(): UseWebContainerReturn {
                 const exitCode = await installProcess.exit;
                 if (exitCode !== 0) throw new Error('npm install failed');
 
+                // Snapshot before any project install can change node_modules
+                await storeSnapshot(instance, cacheKey);
+
                 isPreWarmedFlag = true;
+                depsSourceFlag = 'install';
                 setIsPreWarmed(true);
+                setDepsSource('install');
                 appendOutput('✅ Base packages installed! Ready for projects.');
 
             } catch (err) {
@@ -227,41 +230,66 @@ export function useWebContainer(): UseWebContainerReturn {
         })();
 
         return preWarmPromise;
-    }, [boot, appendOutput]);
+    }, [boot, appendOutput, restoreSnapshot, storeSnapshot]);
 
     // Pre-warm on page load
     useEffect(() => { preWarm(); }, []);
 
-    const mountFiles = useCallback(async (files: FileSystemTree) => {
+    const mountFiles = useCallback(async (files: FileSystemTree, options: MountOptions = {}) => {
         try {
             const instance = await boot();
             if (preWarmPromise && !isPreWarmedFlag) {
                 appendOutput('⏳ Waiting for base setup...');
                 await preWarmPromise;
             }
-            appendOutput('📁 Mounting project files...');
 
-            // Inject error reporter into index.html
-            if (files['index.html']) {
-                const indexHtmlEntry = files['index.html'];
-                if ('file' in indexHtmlEntry && indexHtmlEntry.file && 'contents' in indexHtmlEntry.file) {
-                    const originalHtml = indexHtmlEntry.file.contents;
-                    const errorReporter = getErrorReporterScript();
-
-                    // Inject error reporter after <head> tag
-                    const modifiedHtml = typeof originalHtml === 'string'
-                        ? originalHtml.replace('</head>', `  ${errorReporter}\n  </head>`)
-                        : originalHtml;
-
-                    files['index.html'] = {
-                        file: { contents: modifiedHtml }
-                    };
+            const template = TEMPLATES[options.projectType ?? 'vite-react'];
+            templateRef.current = template;
+            appendOutput(`📁 Mounting ${template.label} project files...`);
+
+            // Project files win over the template's defaults
+            const tree = mergeFileSystemTrees(template.files, files);
+
+            // Merge the project's package.json with the template and the pre-warmed base instead of replacing it
+            const packageContents = readTextFile(tree, 'package.json');
+            const projectPackage = parsePackageJson(packageContents);
+
+            if (packageContents !== undefined && !projectPackage) {
+                // An unreadable package.json is mounted as-is and gets a full install
+                dependencyPlanRef.current = null;
+            } else {
+                const plan = planDependencies(
+                    mergePackageJson(template.packageJson, projectPackage ?? {}),
+                    BASE_PACKAGE_JSON,
+                    options.resolutions
+                );
+                dependencyPlanRef.current = plan;
+                tree['package.json'] = {
+                    file: { contents: JSON.stringify(plan.packageJson, null, 2) },
+                };
+                appendOutput(`📦 ${plan.toInstall.length} new package(s), ${plan.conflicts.length} version conflict(s)`);
+            }
 
-                    appendOutput('🔍 Error reporter injected');
+            // Inject error reporter where this framework serves its HTML from
+            if (template.reporter === 'preview-script') {
+                await instance.setPreviewScript(getErrorReporterSource());
+                previewScriptRegistered = true;
+                appendOutput('🔍 Error reporter registered as preview script');
+            } else {
+                // There is no way to unregister one; an empty script stops the duplicate reporter
+                if (previewScriptRegistered) {
+                    await instance.setPreviewScript('');
+                    previewScriptRegistered = false;
+                }
+                const injected = injectReporterIntoTree(tree, template.reporter === 'all-html');
+                if (injected > 0) {
+                    appendOutput(`🔍 Error reporter injected${injected > 1 ? ` into ${injected} pages` : ''}`);
                 }
             }
 
-            await instance.mount(files);
+            await clearMountedFiles(instance);
+            await instance.mount(tree);
+            setFsVersion(v => v + 1);
             appendOutput('✅ Files mounted');
         } catch (err) {
             const message = err instanceof Error ? err.message : 'Mount failed';
@@ -279,24 +307,33 @@ export function useWebContainer(): UseWebContainerReturn {
             setPreviewUrl(null);
             setIsInstalling(true);
 
-            // Run npm install to get any additional packages from user's project
-            appendOutput('⚡ Installing project dependencies...');
+            const plan = dependencyPlanRef.current;
+            if (plan && plan.toInstall.length === 0) {
+                appendOutput('✅ All dependencies pre-installed, skipping npm install');
+            } else {
+                // Install only the delta when known, otherwise everything in package.json
+                appendOutput(plan
+                    ? `⚡ Installing ${plan.toInstall.length} missing package(s): ${plan.toInstall.join(', ')}`
+                    : '⚡ Installing project dependencies...');
 
-            const installProcess = await instance.spawn('npm', [
-                'install', '--prefer-offline', '--no-audit', '--no-fund', '--legacy-peer-deps',
-            ]);
+                const installProcess = await instance.spawn('npm', [
+                    'install', ...(plan ? plan.toInstall : []),
+                    '--prefer-offline', '--no-audit', '--no-fund', '--legacy-peer-deps',
+                ]);
 
-            installProcess.output.pipeTo(new WritableStream({
-                write(data) {
-                    data.split('\n').filter(Boolean).forEach(line => appendOutput(line));
-                }
-            }));
+                installProcess.output.pipeTo(new WritableStream({
+                    write(data) {
+                        data.split('\n').filter(Boolean).forEach(line => appendOutput(line));
+                    }
+                }));
 
-            await installProcess.exit;
-            appendOutput('✅ Dependencies ready');
-            appendOutput('🚀 Starting dev server...');
+                await installProcess.exit;
+                appendOutput('✅ Dependencies ready');
+            }
+            const { command, args } = templateRef.current.startCommand;
+            appendOutput(`🚀 Starting dev server (${command} ${args.join(' ')})...`);
 
-            const devProcess = await instance.spawn('npm', ['run', 'dev']);
+            const devProcess = await instance.spawn(command, args);
             processRef.current = devProcess;
 
             devProcess.output.pipeTo(new WritableStream({
@@ -317,11 +354,35 @@ export function useWebContainer(): UseWebContainerReturn {
             const instance = await boot();
             await instance.fs.writeFile(path, content);
             appendOutput(`✏️ Updated: ${path}`);
+            setFsVersion(v => v + 1);
+            return true;
         } catch (err) {
             appendOutput(`❌ Failed to update ${path}: ${err}`);
+            return false;
         }
     }, [boot, appendOutput]);
 
+    // Run a one-off command to completion, collecting its output instead of logging it
+    const runCommand = useCallback(async (command: string, args: string[]): Promise<CommandResult> => {
+        const instance = await boot();
+        const process = await instance.spawn(command, args);
+        let output = '';
+        const piped = process.output.pipeTo(new WritableStream({
+            write(data) {
+                output += data;
+            },
+        }));
+        const exitCode = await process.exit;
+        await piped.catch(() => { /* closed with the process */ });
+        return { exitCode, output };
+    }, [boot]);
+
+    // Interactive shell in the same container; runs alongside the dev server
+    const spawnShell = useCallback(async (size: { cols: number; rows: number }) => {
+        const instance = await boot();
+        return instance.spawn('jsh', { terminal: size });
+    }, [boot]);
+
     const reset = useCallback(() => {
         if (processRef.current) {
             processRef.current.kill();
@@ -347,9 +408,13 @@ export function useWebContainer(): UseWebContainerReturn {
         terminalOutput,
         isPreWarmed,
         isPreWarming,
+        depsSource,
         mountFiles,
         startDevServer,
         updateFile,
+        spawnShell,
+        runCommand,
+        fsVersion,
         reset,
     };
 }
@@ -1,18 +1,76 @@
 import { openDB } from 'idb';
 import type { IDBPDatabase } from 'idb';
+import type { FileNode } from './fileUtils';
+import type { FixHistoryEntry } from './fixHistory';
+import type { ConflictResolutions } from './dependencies';
 
 const DB_NAME = 'webcontainer-cache';
-const STORE_NAME = 'dependencies';
-const CACHE_KEY = 'base_deps_installed';
+const DB_VERSION = 3;
+// Snapshot bytes and their metadata live apart so listing never loads the bytes
+const SNAPSHOT_STORE = 'snapshots';
+const META_STORE = 'snapshot-meta';
+// v1 store that only held an unused "installed" flag
+const LEGACY_STORE = 'dependencies';
+// Saved projects, split the same way so the recent list stays cheap
+const WORKSPACE_STORE = 'workspaces';
+const WORKSPACE_META_STORE = 'workspace-meta';
+
+// Older snapshots beyond this count are evicted after each save
+export const MAX_SNAPSHOTS = 3;
+// Least recently saved workspaces beyond this count are evicted after each save
+export const MAX_WORKSPACES = 10;
+
+export interface SnapshotInfo {
+    key: string;
+    label: string;
+    size: number;
+    createdAt: number;
+    lastUsedAt: number;
+}
+
+export interface WorkspaceInfo {
+    id: string;
+    name: string;
+    zipName: string;
+    fileCount: number;
+    // Applied AI fixes still in effect
+    fixCount: number;
+    createdAt: number;
+    updatedAt: number;
+}
+
+// Everything needed to reopen a project where it was left
+export interface Workspace {
+    id: string;
+    zipName: string;
+    files: FileNode[];
+    history: FixHistoryEntry[];
+    // Uploaded content per path, the baseline for "revert all"
+    originals: Record<string, string>;
+    selectedPath: string | null;
+    resolutions: ConflictResolutions;
+}
 
 let dbPromise: Promise<IDBPDatabase> | null = null;
 
 async function getDB(): Promise<IDBPDatabase> {
     if (!dbPromise) {
-        dbPromise = openDB(DB_NAME, 1, {
+        dbPromise = openDB(DB_NAME, DB_VERSION, {
             upgrade(db) {
-                if (!db.objectStoreNames.contains(STORE_NAME)) {
-                    db.createObjectStore(STORE_NAME);
+                if (db.objectStoreNames.contains(LEGACY_STORE)) {
+                    db.deleteObjectStore(LEGACY_STORE);
+                }
+                if (!db.objectStoreNames.contains(SNAPSHOT_STORE)) {
+                    db.createObjectStore(SNAPSHOT_STORE);
+                }
+                if (!db.objectStoreNames.contains(META_STORE)) {
+                    db.createObjectStore(META_STORE, { keyPath: 'key' });
+                }
+                if (!db.objectStoreNames.contains(WORKSPACE_STORE)) {
+                    db.createObjectStore(WORKSPACE_STORE, { keyPath: 'id' });
+                }
+                if (!db.objectStoreNames.contains(WORKSPACE_META_STORE)) {
+                    db.createObjectStore(WORKSPACE_META_STORE, { keyPath: 'id' });
                 }
             },
         });
@@ -20,35 +78,166 @@ async function getDB(): Promise<IDBPDatabase> {
     return dbPromise;
 }
 
-export async function markDepsInstalled(): Promise<void> {
+// Stable cache key for a package.json: SHA-256 of its dependency sections
+export async function hashPackageJson(pkg: {
+    dependencies?: Record<string, string>;
+    devDependencies?: Record<string, string>;
+}): Promise<string> {
+    const sortKeys = (deps: Record<string, string> = {}) =>
+        Object.fromEntries(Object.entries(deps).sort(([a], [b]) => a.localeCompare(b)));
+    const canonical = JSON.stringify({
+        dependencies: sortKeys(pkg.dependencies),
+        devDependencies: sortKeys(pkg.devDependencies),
+    });
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(canonical));
+    return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('').slice(0, 16);
+}
+
+export async function saveSnapshot(key: string, snapshot: Uint8Array, label: string): Promise<void> {
     try {
         const db = await getDB();
-        await db.put(STORE_NAME, {
-            installed: true,
-            timestamp: Date.now(),
-        }, CACHE_KEY);
-        console.log('✅ Marked dependencies as installed in cache');
+        const now = Date.now();
+        const tx = db.transaction([SNAPSHOT_STORE, META_STORE], 'readwrite');
+        await Promise.all([
+            tx.objectStore(SNAPSHOT_STORE).put(snapshot, key),
+            tx.objectStore(META_STORE).put({ key, label, size: snapshot.byteLength, createdAt: now, lastUsedAt: now }),
+            tx.done,
+        ]);
+        console.log(`✅ Saved node_modules snapshot ${key}`);
     } catch (err) {
-        console.error('Failed to save cache flag:', err);
+        console.error('Failed to save snapshot:', err);
     }
 }
 
-export async function areDepsInstalled(): Promise<boolean> {
+// Returns null when there is no snapshot for this key or it cannot be read
+export async function loadSnapshot(key: string): Promise<Uint8Array | null> {
     try {
         const db = await getDB();
-        const cached = await db.get(STORE_NAME, CACHE_KEY);
-        return cached?.installed === true;
+        const snapshot = await db.get(SNAPSHOT_STORE, key);
+        if (!snapshot) return null;
+
+        const meta = await db.get(META_STORE, key);
+        if (meta) {
+            await db.put(META_STORE, { ...meta, lastUsedAt: Date.now() });
+        }
+        return snapshot as Uint8Array;
+    } catch (err) {
+        console.error('Failed to load snapshot:', err);
+        return null;
+    }
+}
+
+// Most recently used first
+export async function listSnapshots(): Promise<SnapshotInfo[]> {
+    try {
+        const db = await getDB();
+        const all = await db.getAll(META_STORE) as SnapshotInfo[];
+        return all.sort((a, b) => b.lastUsedAt - a.lastUsedAt);
     } catch {
-        return false;
+        return [];
     }
 }
 
-export async function clearDepsCache(): Promise<void> {
+export async function deleteSnapshot(key: string): Promise<void> {
     try {
         const db = await getDB();
-        await db.delete(STORE_NAME, CACHE_KEY);
+        const tx = db.transaction([SNAPSHOT_STORE, META_STORE], 'readwrite');
+        await Promise.all([
+            tx.objectStore(SNAPSHOT_STORE).delete(key),
+            tx.objectStore(META_STORE).delete(key),
+            tx.done,
+        ]);
+    } catch (err) {
+        console.error('Failed to delete snapshot:', err);
+    }
+}
+
+// Keep the most recently used snapshots, dropping the rest
+export async function evictSnapshots(maxEntries = MAX_SNAPSHOTS): Promise<number> {
+    const stale = (await listSnapshots()).slice(maxEntries);
+    for (const info of stale) {
+        await deleteSnapshot(info.key);
+    }
+    return stale.length;
+}
+
+export async function clearSnapshots(): Promise<void> {
+    try {
+        const db = await getDB();
+        const tx = db.transaction([SNAPSHOT_STORE, META_STORE], 'readwrite');
+        await Promise.all([
+            tx.objectStore(SNAPSHOT_STORE).clear(),
+            tx.objectStore(META_STORE).clear(),
+            tx.done,
+        ]);
         console.log('🗑️ Cache cleared');
     } catch (err) {
         console.error('Failed to clear cache:', err);
     }
 }
+
+// Rejects when the save fails (e.g. storage quota), so the caller can tell the user
+export async function saveWorkspace(workspace: Workspace, info: Pick<WorkspaceInfo, 'name' | 'fileCount' | 'fixCount'>): Promise<void> {
+    const db = await getDB();
+    const now = Date.now();
+    const existing = await db.get(WORKSPACE_META_STORE, workspace.id) as WorkspaceInfo | undefined;
+    const tx = db.transaction([WORKSPACE_STORE, WORKSPACE_META_STORE], 'readwrite');
+    await Promise.all([
+        tx.objectStore(WORKSPACE_STORE).put(workspace),
+        tx.objectStore(WORKSPACE_META_STORE).put({
+            ...info,
+            id: workspace.id,
+            zipName: workspace.zipName,
+            createdAt: existing?.createdAt ?? now,
+            updatedAt: now,
+        }),
+        tx.done,
+    ]);
+
+    for (const stale of (await listWorkspaces()).slice(MAX_WORKSPACES)) {
+        await deleteWorkspace(stale.id);
+    }
+}
+
+// Returns null when the workspace is gone or cannot be read
+export async function loadWorkspace(id: string): Promise<Workspace | null> {
+    try {
+        const db = await getDB();
+        return (await db.get(WORKSPACE_STORE, id) as Workspace | undefined) ?? null;
+    } catch (err) {
+        console.error('Failed to load workspace:', err);
+        return null;
+    }
+}
+
+// Most recently saved first
+export async function listWorkspaces(): Promise<WorkspaceInfo[]> {
+    try {
+        const db = await getDB();
+        const all = await db.getAll(WORKSPACE_META_STORE) as WorkspaceInfo[];
+        return all.sort((a, b) => b.updatedAt - a.updatedAt);
+    } catch {
+        return [];
+    }
+}
+
+export async function deleteWorkspace(id: string): Promise<void> {
+    try {
+        const db = await getDB();
+        const tx = db.transaction([WORKSPACE_STORE, WORKSPACE_META_STORE], 'readwrite');
+        await Promise.all([
+            tx.objectStore(WORKSPACE_STORE).delete(id),
+            tx.objectStore(WORKSPACE_META_STORE).delete(id),
+            tx.done,
+        ]);
+    } catch (err) {
+        console.error('Failed to delete workspace:', err);
+    }
+}
+
+// Origin-wide storage usage, when the browser exposes it
+export async function getStorageEstimate(): Promise<{ usage: number; quota: number } | null> {
+    if (!navigator.storage?.estimate) return null;
+    const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+    return { usage, quota };
+}
@@ -0,0 +1,131 @@
+// Minimal package.json shape used for dependency reconciliation
+export interface PackageJson {
+    name?: string;
+    scripts?: Record<string, string>;
+    dependencies?: Record<string, string>;
+    devDependencies?: Record<string, string>;
+    [key: string]: unknown;
+}
+
+// A package both sides declare with incompatible ranges
+export interface DependencyConflict {
+    name: string;
+    baseRange: string;
+    projectRange: string;
+}
+
+// Which side wins for each conflicting package (default: base, already installed)
+export type ConflictResolutions = Record<string, 'base' | 'project'>;
+
+export interface DependencyPlan {
+    // name@range specs that are not in the pre-installed base
+    toInstall: string[];
+    conflicts: DependencyConflict[];
+    // package.json to mount: project fields plus the base packages, so npm never prunes them
+    packageJson: PackageJson;
+}
+
+// Parse a package.json, returning null for missing or invalid JSON
+export function parsePackageJson(contents: string | undefined): PackageJson | null {
+    if (!contents) return null;
+    try {
+        const parsed = JSON.parse(contents);
+        return parsed && typeof parsed === 'object' ? parsed as PackageJson : null;
+    } catch {
+        return null;
+    }
+}
+
+// Ranges are compatible when they share a major (or 0.minor) version
+function compatibilityKey(range: string): string | null {
+    const trimmed = range.trim();
+    if (trimmed === '' || trimmed === '*' || trimmed === 'latest') return '*';
+
+    const match = trimmed.match(/(\d+)(?:\.(\d+))?/);
+    if (!match) return null;
+    return match[1] === '0' ? `0.${match[2] ?? '0'}` : match[1];
+}
+
+export function areRangesCompatible(baseRange: string, projectRange: string): boolean {
+    const projectKey = compatibilityKey(projectRange);
+    if (projectKey === '*') return true;
+    return projectKey !== null && projectKey === compatibilityKey(baseRange);
+}
+
+const allDependencies = (pkg: PackageJson): Record<string, string> => ({
+    ...pkg.devDependencies,
+    ...pkg.dependencies,
+});
+
+// Packages declared by both sides whose ranges are incompatible
+export function findDependencyConflicts(project: PackageJson, base: PackageJson): DependencyConflict[] {
+    const baseDeps = allDependencies(base);
+    return Object.entries(allDependencies(project))
+        .filter(([name, range]) => name in baseDeps && !areRangesCompatible(baseDeps[name], range))
+        .map(([name, projectRange]) => ({ name, baseRange: baseDeps[name], projectRange }));
+}
+
+// Diff the project's dependencies against the pre-installed base
+export function planDependencies(
+    project: PackageJson,
+    base: PackageJson,
+    resolutions: ConflictResolutions = {}
+): DependencyPlan {
+    const baseDeps = allDependencies(base);
+    const conflicts = findDependencyConflicts(project, base);
+    const conflictNames = new Set(conflicts.map(c => c.name));
+    const toInstall: string[] = [];
+
+    // Project ranges unless a conflict resolves to the base
+    const mergeSection = (section: Record<string, string> = {}) => {
+        const merged: Record<string, string> = {};
+        for (const [name, range] of Object.entries(section)) {
+            const keepBase = conflictNames.has(name) && resolutions[name] !== 'project';
+            merged[name] = keepBase ? baseDeps[name] : range;
+
+            const isNew = !(name in baseDeps);
+            const useProjectVersion = conflictNames.has(name) && resolutions[name] === 'project';
+            if (isNew || useProjectVersion) {
+                toInstall.push(`${name}@${range}`);
+            }
+        }
+        return merged;
+    };
+
+    const dependencies = mergeSection(project.dependencies);
+    const devDependencies = mergeSection(project.devDependencies);
+
+    // Keep every base package declared so installs never remove them
+    for (const [name, range] of Object.entries(base.dependencies ?? {})) {
+        if (!(name in dependencies) && !(name in devDependencies)) dependencies[name] = range;
+    }
+    for (const [name, range] of Object.entries(base.devDependencies ?? {})) {
+        if (!(name in dependencies) && !(name in devDependencies)) devDependencies[name] = range;
+    }
+
+    return {
+        toInstall,
+        conflicts,
+        packageJson: {
+            ...project,
+            scripts: { ...base.scripts, ...project.scripts },
+            dependencies,
+            devDependencies,
+        },
+    };
+}
+
+// Layer a project's package.json over a template's; the project wins on every field
+export function mergePackageJson(template: PackageJson, project: PackageJson): PackageJson {
+    const projectNames = new Set(Object.keys(allDependencies(project)));
+    const templateOnly = (section: Record<string, string> = {}) =>
+        Object.fromEntries(Object.entries(section).filter(([name]) => !projectNames.has(name)));
+
+    return {
+        ...template,
+        ...project,
+        scripts: { ...template.scripts, ...project.scripts },
+        dependencies: { ...templateOnly(template.dependencies), ...project.dependencies },
+        devDependencies: { ...templateOnly(template.devDependencies), ...project.devDependencies },
+    };
+}
@@ -0,0 +1,337 @@
+import type { FileNode } from './fileUtils';
+import { findRootPrefix, flattenFiles } from './zipUtils';
+
+// Which tool reported the problem
+export type DiagnosticSource =
+    | 'vite' | 'esbuild' | 'rollup' | 'postcss' | 'tailwind' | 'runtime'
+    // Background checks run in the container
+    | 'typescript' | 'eslint';
+
+export interface Diagnostic {
+    // Path relative to the project root, e.g. src/App.tsx
+    file: string;
+    line: number | null;
+    column: number | null;
+    // Plugin or error code, e.g. vite:import-analysis, UNRESOLVED_IMPORT
+    code: string | null;
+    message: string;
+    source: DiagnosticSource;
+    // Defaults to error; only lint rules report warnings
+    severity?: 'error' | 'warning';
+    // Code frame or stack trace printed with the error
+    detail?: string;
+    // Original source around the line, for runtime errors resolved through source maps
+    excerpt?: string;
+}
+
+// Lines after which earlier build errors are stale
+const REBUILD_MARKERS = [/hmr update/, /page reload/, /ready in \d+/i];
+
+const TAILWIND_HINT = /class does not exist|tailwind|@apply|@layer|theme\(/i;
+const FRAME_LINE = /^\s*(?:>\s*)?\d+\s*[|│]|^\s*[|│╵]\s*\^/;
+const ANSI_PATTERN = new RegExp(`${String.fromCharCode(27)}\\[[0-9;]*[A-Za-z]`, 'g');
+
+export const stripAnsi = (text: string): string => text.replace(ANSI_PATTERN, '');
+
+// Absolute container paths and URLs down to a project-relative path
+export function normalizeDiagnosticPath(path: string): string {
+    return path
+        .trim()
+        .replace(/^file:\/\//, '')
+        .replace(/^https?:\/\/[^/]+/, '')
+        .replace(/[?#].*$/, '')
+        .replace(/^\/home\/[^/]+\//, '')
+        .replace(/^\/+/, '');
+}
+
+// "path:line:col" or "path (line:col)"
+function parseLocation(text: string): Pick<Diagnostic, 'file' | 'line' | 'column'> | null {
+    const match = text.trim().match(/^(.+?)(?::(\d+):(\d+)|\s\((\d+):(\d+)\)):?$/);
+    if (!match) return null;
+    return {
+        file: normalizeDiagnosticPath(match[1]),
+        line: parseInt(match[2] ?? match[4], 10),
+        column: parseInt(match[3] ?? match[5], 10),
+    };
+}
+
+// Code frame lines directly following index `from`
+function collectFrame(lines: string[], from: number): string | undefined {
+    const frame: string[] = [];
+    for (let i = from; i < lines.length && frame.length < 12; i++) {
+        if (!FRAME_LINE.test(lines[i])) break;
+        frame.push(lines[i]);
+    }
+    return frame.length > 0 ? frame.join('\n') : undefined;
+}
+
+const cssSource = (message: string): DiagnosticSource => TAILWIND_HINT.test(message) ? 'tailwind' : 'postcss';
+
+// Messages that carry their own location, wherever they are printed
+function parseInlineMessage(message: string): Diagnostic | null {
+    const postcss = message.match(/(?:\[postcss\]|CssSyntaxError:)\s*(.+?):(\d+):(\d+):\s*(.+)$/);
+    if (postcss) {
+        return {
+            file: normalizeDiagnosticPath(postcss[1]),
+            line: parseInt(postcss[2], 10),
+            column: parseInt(postcss[3], 10),
+            code: message.includes('CssSyntaxError') ? 'CssSyntaxError' : null,
+            message: postcss[4],
+            source: cssSource(postcss[4]),
+        };
+    }
+
+    const esbuild = message.match(/^(.+?):(\d+):(\d+): ERROR: (.+)$/);
+    if (esbuild) {
+        return {
+            file: normalizeDiagnosticPath(esbuild[1]),
+            line: parseInt(esbuild[2], 10),
+            column: parseInt(esbuild[3], 10),
+            code: null,
+            message: esbuild[4],
+            source: 'esbuild',
+        };
+    }
+
+    const rollupImport = message.match(/Rollup failed to resolve import "(.+?)" from "(.+?)"/);
+    if (rollupImport) {
+        return {
+            file: normalizeDiagnosticPath(rollupImport[2]),
+            line: null,
+            column: null,
+            code: 'UNRESOLVED_IMPORT',
+            message: `Failed to resolve import "${rollupImport[1]}"`,
+            source: 'rollup',
+        };
+    }
+
+    const viteImport = message.match(/Failed to resolve import "(.+?)" from "(.+?)"/);
+    if (viteImport) {
+        return {
+            file: normalizeDiagnosticPath(viteImport[2]),
+            line: null,
+            column: null,
+            code: 'vite:import-analysis',
+            message: `Failed to resolve import "${viteImport[1]}". Does the file exist?`,
+            source: 'vite',
+        };
+    }
+
+    return null;
+}
+
+// [vite] Internal server error / Pre-transform error, followed by Plugin:, File: and a code frame
+function parseViteError(lines: string[], index: number): Diagnostic | null {
+    const header = lines[index].match(/\[vite\]\s+(?:Internal server error|Pre-transform error):\s*(.+)$/)
+        ?? lines[index].match(/\[plugin:([^\]]+)\]\s*(.+)$/);
+    if (!header) return null;
+
+    const isPluginHeader = lines[index].includes('[plugin:');
+    let plugin: string | null = isPluginHeader ? header[1] : null;
+    let message = isPluginHeader ? header[2] : header[1];
+    let location: Pick<Diagnostic, 'file' | 'line' | 'column'> | null = null;
+    let detail: string | undefined;
+
+    for (let i = index + 1; i < Math.min(lines.length, index + 8); i++) {
+        // Plugin:, File: and the frame are indented under the header
+        if (!/^\s+\S/.test(lines[i])) break;
+        const line = lines[i].trim();
+        const pluginMatch = line.match(/^Plugin:\s*(\S+)/);
+        const fileMatch = line.match(/^File:\s*(.+)$/);
+        if (pluginMatch) plugin = pluginMatch[1];
+        else if (fileMatch) location = parseLocation(fileMatch[1]) ?? { file: normalizeDiagnosticPath(fileMatch[1]), line: null, column: null };
+        else if (FRAME_LINE.test(lines[i])) {
+            detail = collectFrame(lines, i);
+            break;
+        }
+    }
+
+    // esbuild puts the located error on the line after "Transform failed"
+    const inline = parseInlineMessage(message)
+        ?? (/^Transform failed/.test(message) && lines[index + 1] ? parseInlineMessage(lines[index + 1].trim()) : null);
+    if (inline) {
+        return {
+            ...inline,
+            line: inline.line ?? location?.line ?? null,
+            column: inline.column ?? location?.column ?? null,
+            code: inline.code ?? plugin,
+            detail: detail ?? inline.detail,
+        };
+    }
+
+    // Babel-style messages start with the file and end with (line:col)
+    const prefixed = message.match(/^(\/\S+?):\s+(.+?)(?:\s\((\d+):(\d+)\))?$/);
+    if (prefixed) {
+        message = prefixed[2];
+        location ??= {
+            file: normalizeDiagnosticPath(prefixed[1]),
+            line: prefixed[3] ? parseInt(prefixed[3], 10) : null,
+            column: prefixed[4] ? parseInt(prefixed[4], 10) : null,
+        };
+    }
+    if (!location) return null;
+
+    const source: DiagnosticSource = plugin === 'vite:esbuild' ? 'esbuild'
+        : plugin === 'vite:css' || plugin?.includes('postcss') ? cssSource(message)
+            : 'vite';
+    return { ...location, code: plugin, message, source, detail };
+}
+
+// ✘ [ERROR] message, then an indented "path:line:col:" and a code frame
+function parseEsbuildError(lines: string[], index: number): Diagnostic | null {
+    const header = lines[index].match(/^\s*[✘X]\s*\[ERROR\]\s*(.+?)(?:\s+\[plugin ([^\]]+)\])?$/);
+    if (!header) return null;
+
+    for (let i = index + 1; i < Math.min(lines.length, index + 5); i++) {
+        const location = parseLocation(lines[i]);
+        if (location) {
+            return {
+                ...location,
+                code: header[2] ?? null,
+                message: header[1],
+                source: 'esbuild',
+                detail: collectFrame(lines, i + 1),
+            };
+        }
+    }
+    return null;
+}
+
+// [!] (plugin x) Error: message / RollupError: message, then "path (line:col)"
+function parseRollupError(lines: string[], index: number): Diagnostic | null {
+    const header = lines[index].match(/^\s*(?:\[!\]\s*(?:\(plugin ([^)]+)\)\s*)?\w*Error|RollupError):\s*(.+)$/);
+    if (!header) return null;
+
+    for (let i = index + 1; i < Math.min(lines.length, index + 4); i++) {
+        const location = parseLocation(lines[i]);
+        if (location) {
+            return {
+                ...location,
+                code: header[1] ?? null,
+                message: header[2],
+                source: 'rollup',
+                detail: collectFrame(lines, i + 1),
+            };
+        }
+    }
+    return null;
+}
+
+const LINE_PARSERS = [parseViteError, parseEsbuildError, parseRollupError];
+
+export const diagnosticKey = (d: Diagnostic): string =>
+    `${d.source}:${d.file}:${d.line ?? ''}:${d.column ?? ''}:${d.message}`;
+
+// Same error regardless of position, which shifts whenever a fix adds or removes lines above it
+export const diagnosticIdentity = (d: Diagnostic): string =>
+    `${d.source}:${d.file}:${d.message}`;
+
+// Dev-server line announcing an HMR update, full reload or fresh start
+export const isRebuildMarker = (chunk: string): boolean =>
+    REBUILD_MARKERS.some(marker => marker.test(chunk));
+
+// Terminal output since the last successful rebuild, so fixed errors drop out
+export function outputSinceRebuild(output: string[]): string[] {
+    for (let i = output.length - 1; i >= 0; i--) {
+        if (isRebuildMarker(output[i])) return output.slice(i + 1);
+    }
+    return output;
+}
+
+// Parse dev-server output into unique diagnostics, oldest first
+export function parseDiagnostics(output: string[]): Diagnostic[] {
+    const lines = output.flatMap(chunk => stripAnsi(chunk).split('\n'));
+    const found = new Map<string, Diagnostic>();
+
+    for (let i = 0; i < lines.length; i++) {
+        let diagnostic: Diagnostic | null = null;
+        for (const parse of LINE_PARSERS) {
+            diagnostic = parse(lines, i);
+            if (diagnostic) break;
+        }
+        diagnostic ??= parseInlineMessage(lines[i].trim());
+
+        if (diagnostic && diagnostic.file) {
+            const key = diagnosticKey(diagnostic);
+            // A later, more detailed report of the same error wins
+            if (!found.has(key) || (!found.get(key)?.detail && diagnostic.detail)) {
+                found.set(key, diagnostic);
+            }
+        }
+    }
+
+    return Array.from(found.values());
+}
+
+// tsc --pretty false: "src/App.tsx(12,5): error TS2322: message", continued on indented lines
+export function parseTscOutput(output: string): Diagnostic[] {
+    const diagnostics: Diagnostic[] = [];
+    for (const line of stripAnsi(output).split('\n')) {
+        const match = line.match(/^(.+?)\((\d+),(\d+)\): (error|warning) (TS\d+): (.+)$/);
+        if (match) {
+            diagnostics.push({
+                file: normalizeDiagnosticPath(match[1]),
+                line: parseInt(match[2], 10),
+                column: parseInt(match[3], 10),
+                code: match[5],
+                message: match[6],
+                source: 'typescript',
+                severity: match[4] === 'warning' ? 'warning' : 'error',
+            });
+        } else if (/^\s+\S/.test(line) && diagnostics.length > 0) {
+            diagnostics[diagnostics.length - 1].message += `\n${line.trim()}`;
+        }
+    }
+    return diagnostics;
+}
+
+interface EslintResult {
+    filePath: string;
+    messages: { ruleId: string | null; severity: number; message: string; line?: number; column?: number }[];
+}
+
+// eslint -f json; anything printed before the JSON array is ignored
+export function parseEslintJson(output: string): Diagnostic[] {
+    const start = output.indexOf('[');
+    if (start === -1) return [];
+
+    let results: EslintResult[];
+    try {
+        results = JSON.parse(output.slice(start, output.lastIndexOf(']') + 1));
+    } catch {
+        return [];
+    }
+
+    return results.flatMap(result => result.messages.map(message => ({
+        file: normalizeDiagnosticPath(result.filePath),
+        line: message.line ?? null,
+        column: message.column ?? null,
+        code: message.ruleId,
+        message: message.message,
+        source: 'eslint' as const,
+        severity: message.severity === 2 ? 'error' as const : 'warning' as const,
+    })));
+}
+
+// Error text sent to the fixer
+export function formatDiagnostic(d: Diagnostic): string {
+    const position = d.line !== null ? `:${d.line}${d.column !== null ? `:${d.column}` : ''}` : '';
+    const label = d.source === 'runtime' ? 'Runtime Error' : `${d.source} error`;
+    const header = `${label}${d.code ? ` (${d.code})` : ''} in ${d.file}${position}`;
+    return [header, d.message, d.detail].filter(Boolean).join('\n\n');
+}
+
+// Tree node a diagnostic points at: the project-relative path under the root folder first,
+// then looser suffix and file-name matches for paths reported from elsewhere
+export function findDiagnosticFile(files: FileNode[], path: string): FileNode | undefined {
+    const allFiles = flattenFiles(files);
+    const exact = `${findRootPrefix(files) ?? ''}${path}`;
+
+    const candidates = [
+        allFiles.find(f => f.path === exact),
+        allFiles.find(f => f.path === path || f.path.endsWith(`/${path}`)),
+        allFiles.find(f => f.path.includes(path.replace('src/', ''))),
+        allFiles.find(f => f.name === path.split('/').pop()),
+    ];
+    return candidates.find(f => f?.content !== undefined);
+}
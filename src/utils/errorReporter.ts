@@ -3,15 +3,262 @@
  * This script runs in the preview iframe and sends errors to parent window
  */
 
-export function getErrorReporterScript(): string {
+/**
+ * A stack frame in a project file, resolved by the reporter through the module's source map
+ */
+export interface ResolvedFrame {
+    file: string;
+    line: number;
+    column: number;
+    // Original source around the line, empty when no source map was found
+    excerpt: string;
+    // False when the position is still in the transformed module
+    mapped: boolean;
+}
+
+export type ConsoleLevel = 'log' | 'info' | 'warn' | 'error' | 'debug';
+
+/**
+ * A logged value as forwarded by the reporter
+ */
+export interface SerializedArg {
+    type: string;
+    // One-line preview, e.g. {id: 1, items: Array(3)}
+    preview: string;
+    // Pretty-printed JSON for objects, depth-limited
+    detail?: string;
+}
+
+/**
+ * A console call in the preview, as received by the parent window
+ */
+export interface ConsoleEntry {
+    id: number;
+    level: ConsoleLevel;
+    args: SerializedArg[];
+    timestamp: number;
+}
+
+/**
+ * A fetch or XHR call in the preview; the reporter posts it when sent and again when done
+ */
+export interface NetworkRequest {
+    id: string;
+    initiator: 'fetch' | 'xhr';
+    method: string;
+    url: string;
+    startedAt: number;
+    done: boolean;
+    status?: number;
+    statusText?: string;
+    duration?: number;
+    // Truncated bodies; binary and form bodies are described, not included
+    requestBody?: string;
+    responseBody?: string;
+    // Set when the request never got a response
+    error?: string;
+}
+
+/**
+ * A navigation request posted to the preview as { type: 'PREVIEW_NAVIGATE', action, path }
+ */
+export type PreviewNavigation =
+    | { action: 'back' | 'forward' | 'reload' }
+    | { action: 'go'; path: string }
+    // Click visible buttons and in-page links; answered with PREVIEW_EXERCISED
+    | { action: 'exercise' };
+
+/**
+ * Post a navigation request to every preview frame inside a container
+ */
+export function postPreviewNavigation(container: HTMLElement | null, navigation: PreviewNavigation): void {
+    container?.querySelectorAll('iframe').forEach(frame => {
+        frame.contentWindow?.postMessage({ type: 'PREVIEW_NAVIGATE', ...navigation }, '*');
+    });
+}
+
+/**
+ * Whether a message came from the first preview frame in a container. Side-by-side viewports
+ * all run the same page, so only the first one's errors, console output and requests are collected.
+ */
+export function isPrimaryPreviewFrame(container: HTMLElement | null, source: MessageEventSource | null): boolean {
+    const frame = container?.querySelector('iframe');
+    return !!frame && frame.contentWindow === source;
+}
+
+// Failed requests this long before an error are considered related to it
+const RELATED_REQUEST_WINDOW_MS = 10000;
+
+export const isFailedRequest = (request: NetworkRequest): boolean =>
+    request.done && (!!request.error || (request.status ?? 0) >= 400);
+
+/**
+ * Most recent failed request that finished shortly before an error
+ */
+export function findRelatedFailedRequest(requests: NetworkRequest[], errorTime: number): NetworkRequest | null {
+    for (let i = requests.length - 1; i >= 0; i--) {
+        const request = requests[i];
+        const finishedAt = request.startedAt + (request.duration ?? 0);
+        if (!isFailedRequest(request) || finishedAt > errorTime + 1000) continue;
+        if (errorTime - finishedAt > RELATED_REQUEST_WINDOW_MS) return null;
+        return request;
+    }
+    return null;
+}
+
+/**
+ * Request summary for the fixer's error context
+ */
+export function formatNetworkRequest(request: NetworkRequest): string {
+    const outcome = request.error ?? `${request.status} ${request.statusText ?? ''}`.trim();
+    return [
+        `${request.method} ${request.url} -> ${outcome}`,
+        request.requestBody && `Request body:\n${request.requestBody}`,
+        request.responseBody && `Response body:\n${request.responseBody}`,
+    ].filter(Boolean).join('\n');
+}
+
+/**
+ * Raw reporter source, for container-wide injection via setPreviewScript
+ */
+export function getErrorReporterSource(): string {
     return `
-<script>
 (function() {
     'use strict';
     
+    // May be injected both into the HTML and as a preview script; run once per page
+    if (window.__previewErrorReporter) return;
+    window.__previewErrorReporter = true;
+    
     // Throttle error reporting to prevent spam
     let lastErrorTime = 0;
     const ERROR_THROTTLE_MS = 2000;
+    // Report without original positions if source maps take longer than this
+    const RESOLVE_TIMEOUT_MS = 1500;
+    const MAX_FRAMES = 5;
+    
+    // The reporter's own requests bypass the network instrumentation below
+    const nativeFetch = window.fetch ? window.fetch.bind(window) : null;
+    
+    // --- Source maps: map positions in Vite's transformed modules back to the original source ---
+    const BASE64 = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+    const sourceMapCache = new Map();
+    
+    function decodeVLQ(segment) {
+        const values = [];
+        let value = 0;
+        let shift = 0;
+        for (let i = 0; i < segment.length; i++) {
+            const digit = BASE64.indexOf(segment[i]);
+            value += (digit & 31) << shift;
+            if (digit & 32) {
+                shift += 5;
+                continue;
+            }
+            values.push(value & 1 ? -(value >> 1) : value >> 1);
+            value = 0;
+            shift = 0;
+        }
+        return values;
+    }
+    
+    // Segments per generated line: [generatedColumn, sourceIndex, originalLine, originalColumn]
+    function decodeMappings(mappings) {
+        const lines = [];
+        let sourceIndex = 0;
+        let originalLine = 0;
+        let originalColumn = 0;
+        for (const line of mappings.split(';')) {
+            const segments = [];
+            let generatedColumn = 0;
+            for (const raw of line ? line.split(',') : []) {
+                const fields = decodeVLQ(raw);
+                generatedColumn += fields[0];
+                if (fields.length >= 4) {
+                    sourceIndex += fields[1];
+                    originalLine += fields[2];
+                    originalColumn += fields[3];
+                    segments.push([generatedColumn, sourceIndex, originalLine, originalColumn]);
+                }
+            }
+            lines.push(segments);
+        }
+        return lines;
+    }
+    
+    // Vite serves modules with an inline (data: URL) source map; external maps are fetched
+    function loadSourceMap(url) {
+        if (!sourceMapCache.has(url)) {
+            const pending = nativeFetch(url)
+                .then(response => response.text())
+                .then(code => {
+                    const index = code.lastIndexOf('sourceMappingURL=');
+                    if (index === -1) return null;
+                    const ref = code.slice(index + 'sourceMappingURL='.length).split('\\n')[0].trim();
+                    if (ref.startsWith('data:')) {
+                        const bytes = Uint8Array.from(atob(ref.slice(ref.indexOf(',') + 1)), c => c.charCodeAt(0));
+                        return JSON.parse(new TextDecoder().decode(bytes));
+                    }
+                    return nativeFetch(new URL(ref, url)).then(response => response.json());
+                })
+                .then(map => map && map.mappings ? { map, lines: decodeMappings(map.mappings) } : null)
+                .catch(() => null);
+            sourceMapCache.set(url, pending);
+        }
+        return sourceMapCache.get(url);
+    }
+    
+    // Closest mapped segment at or before the (1-based) generated position
+    function originalPosition(entry, line, column) {
+        const segments = entry.lines[line - 1];
+        if (!segments || segments.length === 0) return null;
+        let best = segments[0];
+        for (const segment of segments) {
+            if (segment[0] > column - 1) break;
+            best = segment;
+        }
+        return { sourceIndex: best[1], line: best[2] + 1, column: best[3] + 1 };
+    }
+    
+    function excerptAround(content, line) {
+        if (typeof content !== 'string') return '';
+        const lines = content.split('\\n');
+        const excerpt = [];
+        for (let i = Math.max(0, line - 4); i < Math.min(lines.length, line + 3); i++) {
+            excerpt.push((i + 1 === line ? '> ' : '  ') + String(i + 1).padStart(4) + ' | ' + lines[i]);
+        }
+        return excerpt.join('\\n');
+    }
+    
+    // Same-origin project modules; Vite internals and pre-bundled deps are skipped
+    function isProjectFrame(url) {
+        return url.startsWith(location.origin) && !/node_modules|\\/@vite\\/|\\/@react-refresh|\\/\\.vite\\//.test(url);
+    }
+    
+    // Stack frames in project files, at their original positions where a source map allows
+    async function resolveFrames(stack) {
+        const frames = [];
+        for (const match of stack.matchAll(/(https?:\\/\\/[^\\s()]+?):(\\d+):(\\d+)/g)) {
+            if (frames.length >= MAX_FRAMES) break;
+            const url = match[1];
+            if (!isProjectFrame(url)) continue;
+    
+            const line = Number(match[2]);
+            const column = Number(match[3]);
+            const file = decodeURIComponent(new URL(url).pathname).replace(/^\\//, '');
+            const entry = await loadSourceMap(url);
+            const position = entry && originalPosition(entry, line, column);
+    
+            frames.push(position ? {
+                file,
+                line: position.line,
+                column: position.column,
+                excerpt: excerptAround(entry.map.sourcesContent && entry.map.sourcesContent[position.sourceIndex], position.line),
+                mapped: true
+            } : { file, line, column, excerpt: '', mapped: false });
+        }
+        return frames;
+    }
     
     function canReportError() {
         const now = Date.now();
@@ -25,15 +272,23 @@ export function getErrorReporterScript(): string {
     function sendErrorToParent(errorData) {
         if (!canReportError()) return;
         
-        try {
-            window.parent.postMessage({
-                type: 'RUNTIME_ERROR',
-                ...errorData,
-                timestamp: Date.now()
-            }, '*');
-        } catch (e) {
-            console.error('Failed to send error to parent:', e);
-        }
+        // Errors without a stack still carry the failing script position
+        const stack = errorData.stack ||
+            (errorData.filename ? errorData.filename + ':' + errorData.lineno + ':' + errorData.colno : '');
+        const timeout = new Promise(resolve => setTimeout(() => resolve([]), RESOLVE_TIMEOUT_MS));
+        
+        Promise.race([resolveFrames(stack).catch(() => []), timeout]).then(frames => {
+            try {
+                window.parent.postMessage({
+                    type: 'RUNTIME_ERROR',
+                    ...errorData,
+                    frames,
+                    timestamp: Date.now()
+                }, '*');
+            } catch (e) {
+                console.error('Failed to send error to parent:', e);
+            }
+        });
     }
     
     // Capture global JavaScript errors
@@ -63,13 +318,122 @@ export function getErrorReporterScript(): string {
         sendErrorToParent(errorData);
     });
     
-    // Intercept console.error to catch React error boundary errors
-    const originalConsoleError = console.error;
-    console.error = function(...args) {
-        // Call original first
-        originalConsoleError.apply(console, args);
-        
-        // Check if this is a React error
+    // --- Console forwarding: every level, with previews of the logged values ---
+    const CONSOLE_LEVELS = ['log', 'info', 'warn', 'error', 'debug'];
+    const MAX_PREVIEW_LENGTH = 200;
+    const MAX_DETAIL_DEPTH = 4;
+    
+    function truncate(text, max) {
+        return text.length > max ? text.slice(0, max) + '…' : text;
+    }
+    
+    function isElement(value) {
+        return typeof Element !== 'undefined' && value instanceof Element;
+    }
+    
+    // One-line preview in the style of browser devtools
+    function previewValue(value, depth) {
+        if (value === null) return 'null';
+        if (value === undefined) return 'undefined';
+        const type = typeof value;
+        if (type === 'string') return depth === 0 ? value : JSON.stringify(truncate(value, 50));
+        if (type === 'function') return 'ƒ ' + (value.name || 'anonymous') + '()';
+        if (type !== 'object') return String(value);
+        if (value instanceof Error) return value.name + ': ' + value.message;
+        if (isElement(value)) return '<' + value.tagName.toLowerCase() + (value.id ? '#' + value.id : '') + '>';
+        if (depth >= 2) return Array.isArray(value) ? '[…]' : '{…}';
+        if (Array.isArray(value)) {
+            const items = value.slice(0, 10).map(item => previewValue(item, depth + 1));
+            return '(' + value.length + ') [' + items.join(', ') + (value.length > 10 ? ', …' : '') + ']';
+        }
+        const keys = Object.keys(value);
+        const name = value.constructor && value.constructor.name && value.constructor.name !== 'Object'
+            ? value.constructor.name + ' '
+            : '';
+        const entries = keys.slice(0, 8).map(key => key + ': ' + previewValue(value[key], depth + 1));
+        return name + '{' + entries.join(', ') + (keys.length > 8 ? ', …' : '') + '}';
+    }
+    
+    // Expandable JSON for objects: depth-limited and cycle-safe
+    function detailValue(value) {
+        const seen = new WeakSet();
+        function prune(v, depth) {
+            if (v === null || typeof v !== 'object') {
+                return typeof v === 'function' || typeof v === 'bigint' || typeof v === 'symbol' || v === undefined
+                    ? previewValue(v, 1)
+                    : v;
+            }
+            if (seen.has(v)) return '[Circular]';
+            seen.add(v);
+            if (v instanceof Error) return { name: v.name, message: v.message, stack: v.stack };
+            if (isElement(v) || depth >= MAX_DETAIL_DEPTH) return previewValue(v, 2);
+            if (Array.isArray(v)) return v.slice(0, 100).map(item => prune(item, depth + 1));
+            const result = {};
+            Object.keys(v).slice(0, 100).forEach(key => {
+                try {
+                    result[key] = prune(v[key], depth + 1);
+                } catch (e) {
+                    result[key] = '[Unreadable]';
+                }
+            });
+            return result;
+        }
+        try {
+            return JSON.stringify(prune(value, 0), null, 2);
+        } catch (e) {
+            return undefined;
+        }
+    }
+    
+    function serializeArg(value) {
+        const isObject = value !== null && typeof value === 'object';
+        let preview;
+        try {
+            preview = previewValue(value, 0);
+        } catch (e) {
+            preview = '[Unserializable]';
+        }
+        return {
+            type: value === null ? 'null'
+                : Array.isArray(value) ? 'array'
+                : value instanceof Error ? 'error'
+                : typeof value,
+            preview: isObject ? truncate(preview, MAX_PREVIEW_LENGTH) : preview,
+            detail: isObject && !isElement(value) ? detailValue(value) : undefined
+        };
+    }
+    
+    // Guards against re-entry when forwarding itself logs
+    let isForwarding = false;
+    
+    CONSOLE_LEVELS.forEach(function(level) {
+        const original = console[level];
+        console[level] = function(...args) {
+            // Call original first
+            original.apply(console, args);
+            
+            if (!isForwarding) {
+                isForwarding = true;
+                try {
+                    window.parent.postMessage({
+                        type: 'CONSOLE_MESSAGE',
+                        level: level,
+                        args: args.map(serializeArg),
+                        timestamp: Date.now()
+                    }, '*');
+                } catch (e) {
+                    // Nothing useful to do if the parent is gone
+                } finally {
+                    isForwarding = false;
+                }
+            }
+            
+            if (level === 'error') detectReactError(args);
+        };
+    });
+    
+    // React error-boundary messages arrive through console.error
+    function detectReactError(args) {
         const errorText = args.map(arg => String(arg)).join(' ');
         
         if (errorText.includes('error boundary') || 
@@ -95,14 +459,237 @@ export function getErrorReporterScript(): string {
             console.log('🔴 React Error Detected:', errorData);
             sendErrorToParent(errorData);
         }
-    };
+    }
+    
+    // --- Network: fetch and XMLHttpRequest metadata, with truncated bodies ---
+    const MAX_BODY_CHARS = 2000;
+    const pageId = Math.random().toString(36).slice(2, 8);
+    let requestCount = 0;
+    
+    function nextRequestId() {
+        requestCount += 1;
+        return pageId + '-' + requestCount;
+    }
+    
+    function postNetwork(data) {
+        try {
+            window.parent.postMessage({ type: 'NETWORK_REQUEST', ...data }, '*');
+        } catch (e) {
+            // Nothing useful to do if the parent is gone
+        }
+    }
+    
+    function describeBody(body) {
+        if (body === undefined || body === null) return undefined;
+        if (typeof body === 'string') return truncate(body, MAX_BODY_CHARS);
+        if (typeof URLSearchParams !== 'undefined' && body instanceof URLSearchParams) return truncate(body.toString(), MAX_BODY_CHARS);
+        if (typeof FormData !== 'undefined' && body instanceof FormData) return '[FormData]';
+        if (typeof Blob !== 'undefined' && body instanceof Blob) return '[Blob ' + body.size + ' bytes]';
+        if (body instanceof ArrayBuffer || ArrayBuffer.isView(body)) return '[Binary ' + body.byteLength + ' bytes]';
+        return '[' + (body.constructor ? body.constructor.name : typeof body) + ']';
+    }
+    
+    function isTextual(contentType) {
+        return !contentType || /json|text|xml|javascript|x-www-form-urlencoded/.test(contentType);
+    }
+    
+    function absoluteUrl(url) {
+        try {
+            return new URL(url, location.href).href;
+        } catch (e) {
+            return url;
+        }
+    }
+    
+    if (nativeFetch) {
+        window.fetch = function(input, init) {
+            const request = typeof Request !== 'undefined' && input instanceof Request ? input : null;
+            const base = {
+                id: nextRequestId(),
+                initiator: 'fetch',
+                method: ((init && init.method) || (request && request.method) || 'GET').toUpperCase(),
+                url: absoluteUrl(request ? request.url : String(input)),
+                startedAt: Date.now()
+            };
+            postNetwork({ ...base, requestBody: describeBody(init && init.body), done: false });
+            
+            return nativeFetch(input, init).then(function(response) {
+                const finish = function(responseBody) {
+                    postNetwork({
+                        ...base,
+                        done: true,
+                        status: response.status,
+                        statusText: response.statusText,
+                        duration: Date.now() - base.startedAt,
+                        responseBody: responseBody
+                    });
+                };
+                if (isTextual(response.headers.get('content-type'))) {
+                    response.clone().text().then(
+                        function(text) { finish(truncate(text, MAX_BODY_CHARS)); },
+                        function() { finish(undefined); }
+                    );
+                } else {
+                    finish(undefined);
+                }
+                return response;
+            }, function(error) {
+                postNetwork({
+                    ...base,
+                    done: true,
+                    duration: Date.now() - base.startedAt,
+                    error: String((error && error.message) || error)
+                });
+                throw error;
+            });
+        };
+    }
+    
+    if (window.XMLHttpRequest) {
+        const xhrOpen = XMLHttpRequest.prototype.open;
+        const xhrSend = XMLHttpRequest.prototype.send;
+        
+        XMLHttpRequest.prototype.open = function(method, url) {
+            this.__previewRequest = { method: String(method).toUpperCase(), url: absoluteUrl(String(url)) };
+            return xhrOpen.apply(this, arguments);
+        };
+        
+        XMLHttpRequest.prototype.send = function(body) {
+            const xhr = this;
+            if (xhr.__previewRequest) {
+                const base = {
+                    id: nextRequestId(),
+                    initiator: 'xhr',
+                    method: xhr.__previewRequest.method,
+                    url: xhr.__previewRequest.url,
+                    startedAt: Date.now()
+                };
+                postNetwork({ ...base, requestBody: describeBody(body), done: false });
+                
+                xhr.addEventListener('loadend', function() {
+                    const failed = xhr.status === 0;
+                    let responseBody;
+                    try {
+                        if (xhr.responseType === '' || xhr.responseType === 'text') responseBody = truncate(xhr.responseText, MAX_BODY_CHARS);
+                        else if (xhr.responseType === 'json') responseBody = truncate(JSON.stringify(xhr.response), MAX_BODY_CHARS);
+                    } catch (e) {
+                        responseBody = undefined;
+                    }
+                    postNetwork({
+                        ...base,
+                        done: true,
+                        status: failed ? undefined : xhr.status,
+                        statusText: xhr.statusText,
+                        duration: Date.now() - base.startedAt,
+                        responseBody: responseBody,
+                        error: failed ? 'Network error' : undefined
+                    });
+                });
+            }
+            return xhrSend.apply(this, arguments);
+        };
+    }
+    
+    // --- Navigation: report the current location and follow back/forward/go requests from the parent ---
+    function postLocation() {
+        try {
+            window.parent.postMessage({
+                type: 'PREVIEW_LOCATION',
+                path: location.pathname + location.search + location.hash
+            }, '*');
+        } catch (e) {
+            // Nothing useful to do if the parent is gone
+        }
+    }
+    
+    // Client-side routers change the URL through the History API without reloading
+    ['pushState', 'replaceState'].forEach(function(method) {
+        const original = history[method];
+        history[method] = function() {
+            const result = original.apply(this, arguments);
+            postLocation();
+            return result;
+        };
+    });
+    window.addEventListener('popstate', postLocation);
+    window.addEventListener('hashchange', postLocation);
+    postLocation();
+    
+    // --- Exercise: click visible buttons and in-page links to surface errors in event handlers ---
+    const MAX_CLICKS = 20;
+    const CLICK_INTERVAL_MS = 150;
+    const CLICKABLE = 'button, [role="button"], a[href^="#"], a:not([href]), summary';
+    
+    function isClickable(element) {
+        if (element.disabled || element.closest('[aria-hidden="true"]')) return false;
+        const rect = element.getBoundingClientRect();
+        return rect.width > 0 && rect.height > 0 && getComputedStyle(element).visibility !== 'hidden';
+    }
+    
+    function exercisePage() {
+        const targets = Array.from(document.querySelectorAll(CLICKABLE)).filter(isClickable).slice(0, MAX_CLICKS);
+        // Dialogs would block the page and form submits would leave it
+        const dialogs = { alert: window.alert, confirm: window.confirm, prompt: window.prompt };
+        window.alert = function() {};
+        window.confirm = function() { return false; };
+        window.prompt = function() { return null; };
+        const blockSubmit = function(event) { event.preventDefault(); };
+        document.addEventListener('submit', blockSubmit, true);
+        
+        let clicked = 0;
+        function next() {
+            const element = targets[clicked];
+            if (!element) {
+                document.removeEventListener('submit', blockSubmit, true);
+                Object.assign(window, dialogs);
+                window.parent.postMessage({ type: 'PREVIEW_EXERCISED', clicked: clicked }, '*');
+                return;
+            }
+            clicked += 1;
+            try {
+                if (element.isConnected) element.click();
+            } catch (e) {
+                // Errors thrown by handlers are reported through the listeners above
+            }
+            setTimeout(next, CLICK_INTERVAL_MS);
+        }
+        next();
+    }
+    
+    window.addEventListener('message', function(event) {
+        if (event.source !== window.parent || event.data?.type !== 'PREVIEW_NAVIGATE') return;
+        const { action, path } = event.data;
+        if (action === 'back') history.back();
+        else if (action === 'forward') history.forward();
+        else if (action === 'reload') location.reload();
+        else if (action === 'exercise') exercisePage();
+        // A full load, like the browser's address bar, so the page's initial render runs too
+        else if (action === 'go' && typeof path === 'string') location.assign(path);
+    });
     
     console.log('✅ Error Reporter initialized');
 })();
-</script>
 `.trim();
 }
 
+export function getErrorReporterScript(): string {
+    return `<script>\n${getErrorReporterSource()}\n</script>`;
+}
+
+/**
+ * Insert the reporter into an HTML document, before any app script runs
+ */
+export function injectErrorReporter(html: string): string {
+    const script = getErrorReporterScript();
+    if (html.includes('</head>')) {
+        return html.replace('</head>', `  ${script}\n  </head>`);
+    }
+    if (/<body[^>]*>/i.test(html)) {
+        return html.replace(/<body[^>]*>/i, match => `${match}\n${script}`);
+    }
+    return `${script}\n${html}`;
+}
+
 /**
  * Parse stack trace to extract file path and line number
  */
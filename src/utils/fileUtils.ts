@@ -4,6 +4,8 @@ export interface FileNode {
     path: string;
     type: 'file' | 'directory';
     content?: string;
+    // Raw bytes for binary files (images, fonts...); content is unset for these
+    binary?: Uint8Array;
     children?: FileNode[];
 }
 
@@ -26,6 +28,64 @@ export const getLanguage = (path: string): string => {
     return languageMap[ext || ''] || 'plaintext';
 };
 
+// Extensions that are always treated as binary
+const BINARY_EXTENSIONS = new Set([
+    'png', 'jpg', 'jpeg', 'gif', 'webp', 'avif', 'bmp', 'ico', 'icns',
+    'woff', 'woff2', 'ttf', 'otf', 'eot',
+    'mp3', 'wav', 'ogg', 'mp4', 'webm', 'mov',
+    'pdf', 'zip', 'gz', 'tgz', 'wasm',
+]);
+
+const IMAGE_MIME_TYPES: Record<string, string> = {
+    png: 'image/png',
+    jpg: 'image/jpeg',
+    jpeg: 'image/jpeg',
+    gif: 'image/gif',
+    webp: 'image/webp',
+    avif: 'image/avif',
+    bmp: 'image/bmp',
+    ico: 'image/x-icon',
+    svg: 'image/svg+xml',
+};
+
+const FONT_EXTENSIONS = new Set(['woff', 'woff2', 'ttf', 'otf']);
+
+export const isBinaryPath = (path: string): boolean => {
+    const ext = path.split('.').pop()?.toLowerCase();
+    return BINARY_EXTENSIONS.has(ext || '');
+};
+
+// Sniff the first few KB: NUL bytes or invalid UTF-8 mean binary
+export const isBinaryContent = (bytes: Uint8Array): boolean => {
+    const sample = bytes.subarray(0, 8000);
+    if (sample.includes(0)) return true;
+    try {
+        // stream: true tolerates a multi-byte character cut off at the sample boundary
+        new TextDecoder('utf-8', { fatal: true }).decode(sample, { stream: true });
+        return false;
+    } catch {
+        return true;
+    }
+};
+
+// Get MIME type for files that can be previewed as images
+export const getImageMimeType = (path: string): string | null => {
+    const ext = path.split('.').pop()?.toLowerCase();
+    return IMAGE_MIME_TYPES[ext || ''] || null;
+};
+
+export const isFontPath = (path: string): boolean => {
+    const ext = path.split('.').pop()?.toLowerCase();
+    return FONT_EXTENSIONS.has(ext || '');
+};
+
+// Human-readable byte size
+export const formatBytes = (bytes: number): string => {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
 // Get file icon color based on extension
 export const getFileColor = (path: string): string => {
     const ext = path.split('.').pop()?.toLowerCase();
@@ -39,6 +99,32 @@ export const getFileColor = (path: string): string => {
         json: '#cbcb41',
         md: '#083fa1',
         svg: '#ffb13b',
+        png: '#a855f7',
+        jpg: '#a855f7',
+        jpeg: '#a855f7',
+        gif: '#a855f7',
+        webp: '#a855f7',
+        ico: '#a855f7',
+        woff: '#14b8a6',
+        woff2: '#14b8a6',
+        ttf: '#14b8a6',
+        otf: '#14b8a6',
     };
     return colorMap[ext || ''] || '#6b7280';
 };
+
+// Save state of a file edited by hand in the editor
+export type FileSaveStatus = 'dirty' | 'saving' | 'saved';
+
+// Return a new tree with the content of a single file replaced
+export const updateFileContent = (nodes: FileNode[], path: string, content: string): FileNode[] => {
+    return nodes.map(node => {
+        if (node.path === path) {
+            return { ...node, content };
+        }
+        if (node.children) {
+            return { ...node, children: updateFileContent(node.children, path, content) };
+        }
+        return node;
+    });
+};
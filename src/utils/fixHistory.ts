@@ -0,0 +1,109 @@
+import type { FileNode } from './fileUtils';
+import type { FixChangelogEntry } from './zipUtils';
+import { flattenFiles } from './zipUtils';
+
+// llm: applied AI fix, manual: editor save, revert: undo of earlier changes
+export type FixSource = 'llm' | 'manual' | 'revert';
+
+// verifying: being watched after it was applied, confirmed: the preview stayed clean, failed: rolled back
+export type FixStatus = 'verifying' | 'confirmed' | 'failed';
+
+// One recorded change to one file
+export interface FixHistoryEntry {
+    id: string;
+    path: string;
+    before: string;
+    after: string;
+    // Error that triggered an LLM fix; null for manual edits and reverts
+    error: string | null;
+    timestamp: number;
+    source: FixSource;
+    // Set once a revert has undone this change
+    revertedAt?: number;
+    // Outcome of watching the preview after an LLM fix
+    status?: FixStatus;
+    // Server fix-cache entry an LLM fix came from, invalidated when the fix is rolled back
+    cacheKey?: string;
+}
+
+let entryCounter = 0;
+
+// Oldest entries beyond this are dropped, except each file's latest change and AI fixes still in effect
+export const MAX_HISTORY_ENTRIES = 200;
+
+export function createHistoryEntry(fields: Omit<FixHistoryEntry, 'id' | 'timestamp'>): FixHistoryEntry {
+    entryCounter++;
+    return { ...fields, id: `${Date.now()}-${entryCounter}`, timestamp: Date.now() };
+}
+
+// Text content of every file as uploaded, the baseline for "revert all"
+export function snapshotContents(files: FileNode[]): Map<string, string> {
+    return new Map(flattenFiles(files)
+        .filter(f => f.content !== undefined)
+        .map(f => [f.path, f.content as string]));
+}
+
+// Content a file had after its latest recorded change, falling back to the upload
+export function latestContent(history: FixHistoryEntry[], originals: Map<string, string>, path: string): string | undefined {
+    for (let i = history.length - 1; i >= 0; i--) {
+        if (history[i].path === path) return history[i].after;
+    }
+    return originals.get(path);
+}
+
+// An editor save, merged into the previous entry when that was a save of the same file,
+// so a typing session is one change rather than one per pause
+export function recordManualEdit(history: FixHistoryEntry[], path: string, before: string, after: string): FixHistoryEntry[] {
+    const last = history[history.length - 1];
+    if (last?.source === 'manual' && last.path === path && !last.revertedAt) {
+        // Typed back to where the session started
+        if (last.before === after) return history.slice(0, -1);
+        return [...history.slice(0, -1), { ...last, after, timestamp: Date.now() }];
+    }
+    return [...history, createHistoryEntry({ path, before, after, error: null, source: 'manual' })];
+}
+
+// History trimmed to MAX_HISTORY_ENTRIES; latestContent and the FIXES.md changelog still see what they need
+export function capHistory(history: FixHistoryEntry[]): FixHistoryEntry[] {
+    let excess = history.length - MAX_HISTORY_ENTRIES;
+    if (excess <= 0) return history;
+
+    const latest = new Set(new Map(history.map(e => [e.path, e.id])).values());
+    return history.filter(e => {
+        if (excess <= 0 || latest.has(e.id) || (e.source === 'llm' && !e.revertedAt)) return true;
+        excess--;
+        return false;
+    });
+}
+
+// Reverting an entry restores its "before", which also undoes every later change to that file
+export function entriesUndoneBy(history: FixHistoryEntry[], entryId: string): FixHistoryEntry[] {
+    const index = history.findIndex(e => e.id === entryId);
+    if (index === -1) return [];
+    const path = history[index].path;
+    return history
+        .slice(index)
+        .filter(e => e.path === path && e.source !== 'revert' && !e.revertedAt);
+}
+
+export function markReverted(history: FixHistoryEntry[], ids: Set<string>, at = Date.now()): FixHistoryEntry[] {
+    return history.map(e => ids.has(e.id) && !e.revertedAt ? { ...e, revertedAt: at } : e);
+}
+
+// undefined clears the status, for fixes whose outcome could not be told
+export function setEntryStatus(history: FixHistoryEntry[], ids: Set<string>, status: FixStatus | undefined): FixHistoryEntry[] {
+    return history.map(e => ids.has(e.id) ? { ...e, status } : e);
+}
+
+// Applied LLM fixes that are still in effect, for the exported FIXES.md
+export function toChangelog(history: FixHistoryEntry[]): FixChangelogEntry[] {
+    return history
+        .filter(e => e.source === 'llm' && !e.revertedAt)
+        .map(e => ({
+            path: e.path,
+            error: e.error ?? '',
+            timestamp: e.timestamp,
+            linesBefore: e.before.split('\n').length,
+            linesAfter: e.after.split('\n').length,
+        }));
+}
@@ -0,0 +1,137 @@
+// Client for POST /api/fix-error/stream, which answers with Server-Sent Events
+
+export type FixStreamStage = 'cached' | 'generating' | 'parsing';
+
+// Body of the final "done" event, the same shape /api/fix-error returns
+export interface FixResponse {
+    fixedCode?: string;
+    patches?: { filePath: string; fixedCode: string }[];
+    // Server fix-cache entry the fix was served from or stored in
+    cacheKey?: string;
+    cached?: boolean;
+}
+
+export type FixStreamEvent =
+    | { type: 'progress'; stage: FixStreamStage; message: string; multiFile?: boolean }
+    | { type: 'token'; text: string };
+
+interface StreamFixOptions {
+    signal?: AbortSignal;
+    onEvent: (event: FixStreamEvent) => void;
+}
+
+// One "event:/data:" block; returns null for comments and keep-alives
+function parseEventBlock(block: string): { event: string; data: unknown } | null {
+    let event = 'message';
+    const data: string[] = [];
+    for (const line of block.split('\n')) {
+        if (line.startsWith('event:')) event = line.slice(6).trim();
+        else if (line.startsWith('data:')) data.push(line.slice(5).trimStart());
+    }
+    return data.length > 0 ? { event, data: JSON.parse(data.join('\n')) } : null;
+}
+
+// Send a fix request and report progress and tokens as they arrive; resolves with the final fix.
+// Aborting the signal closes the connection, which cancels the model request on the server.
+export async function streamFix(url: string, body: unknown, { signal, onEvent }: StreamFixOptions): Promise<FixResponse> {
+    const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Accept: 'text/event-stream' },
+        body: JSON.stringify(body),
+        signal,
+    });
+    if (!response.ok || !response.body) throw new Error('Backend failed');
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    while (true) {
+        const { value, done } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+
+        const blocks = buffer.split('\n\n');
+        buffer = blocks.pop() ?? '';
+        for (const block of blocks) {
+            const message = parseEventBlock(block);
+            if (!message) continue;
+
+            if (message.event === 'done') return message.data as FixResponse;
+            if (message.event === 'error') throw new Error((message.data as { error?: string }).error || 'Backend failed');
+            if (message.event === 'progress' || message.event === 'token') {
+                onEvent({ type: message.event, ...(message.data as object) } as FixStreamEvent);
+            }
+        }
+    }
+    throw new Error('Fix stream ended before the fix was complete');
+}
+
+// Decode a JSON string body that may be cut off mid-way, stopping at its closing quote
+function decodePartialJsonString(text: string): string {
+    let out = '';
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (char === '"') break;
+        if (char !== '\\') {
+            out += char;
+            continue;
+        }
+        const next = text[i + 1];
+        if (next === undefined) break;
+        if (next === 'u') {
+            const hex = text.slice(i + 2, i + 6);
+            if (hex.length < 4) break;
+            out += String.fromCharCode(parseInt(hex, 16));
+            i += 5;
+            continue;
+        }
+        out += ({ n: '\n', t: '\t', r: '\r', b: '\b', f: '\f' } as Record<string, string>)[next] ?? next;
+        i++;
+    }
+    return out;
+}
+
+export interface StreamedCode {
+    // File being written, for JSON patch responses that name it
+    path: string | null;
+    code: string;
+}
+
+const CONTENT_KEY = /"content"\s*:\s*"/g;
+const PATH_KEY = /"path"\s*:\s*"((?:[^"\\]|\\.)*)"/g;
+// Re-scan this much of the previous text, for a key split across two calls
+const KEY_OVERLAP = 64;
+
+// Readable view of a response as it streams in: plain code, or the file currently being written in a
+// JSON patch response. Text must only grow between calls; the last file's start is tracked so each
+// call scans just what was added.
+export function createStreamPreview(): (text: string, multiFile: boolean) => StreamedCode {
+    let scanned = 0;
+    let file: { path: string | null; start: number } | null = null;
+
+    return (text, multiFile) => {
+        if (!multiFile) {
+            const code = text.startsWith('```') ? text.slice(text.indexOf('\n') + 1) : text;
+            return { path: null, code: code.replace(/\n?```\s*$/, '') };
+        }
+
+        // Never before the current file's content, so its own key is not found again
+        const from = Math.max(file?.start ?? 0, scanned - KEY_OVERLAP);
+        const contentStart = [...text.slice(from).matchAll(CONTENT_KEY)].pop();
+        if (contentStart?.index !== undefined) {
+            const keyAt = from + contentStart.index;
+            // The path key sits between the previous file's content and this one's
+            const pathMatch = [...text.slice(file?.start ?? 0, keyAt).matchAll(PATH_KEY)].pop();
+            file = {
+                path: pathMatch ? decodePartialJsonString(pathMatch[1]) : null,
+                start: keyAt + contentStart[0].length,
+            };
+        }
+        scanned = text.length;
+
+        return file
+            ? { path: file.path, code: decodePartialJsonString(text.slice(file.start)) }
+            : { path: null, code: '' };
+    };
+}
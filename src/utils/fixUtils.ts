@@ -0,0 +1,37 @@
+import type { FileNode } from './fileUtils';
+import { updateFileContent } from './fileUtils';
+import type { Diagnostic } from './diagnostics';
+
+// New content for one file, with the content it was generated against
+export interface FilePatch {
+    path: string;
+    originalCode: string;
+    fixedCode: string;
+}
+
+// A fix returned by /api/fix-error that is waiting for review
+export interface FixProposal {
+    id: string;
+    // File the error was reported in
+    path: string;
+    error: string;
+    // Problem the fix targets, checked for again after the fix is accepted
+    diagnostic?: Diagnostic;
+    patches: FilePatch[];
+    // Server fix-cache entry the fix came from
+    cacheKey?: string;
+    createdAt: number;
+}
+
+// A fix for one error that was applied and then rolled back, sent along with the next request
+export interface FixAttempt {
+    patches: { filePath: string; fixedCode: string }[];
+    // What went wrong, e.g. the error persisted or new errors appeared
+    result: string;
+    timestamp: number;
+}
+
+// Apply every patch to the tree in one pass
+export const applyPatchesToTree = (nodes: FileNode[], patches: FilePatch[]): FileNode[] => {
+    return patches.reduce((tree, patch) => updateFileContent(tree, patch.path, patch.fixedCode), nodes);
+};
@@ -0,0 +1,99 @@
+import type { FileNode } from './fileUtils';
+import { flattenFiles, findRootPrefix } from './zipUtils';
+
+// A file linked to the failing file through an import, in either direction
+export interface RelatedFile {
+    node: FileNode;
+    relation: 'imports' | 'importedBy';
+}
+
+const SCRIPT_EXTENSIONS = ['.ts', '.tsx', '.js', '.jsx', '.mjs'];
+
+// Static imports, re-exports and dynamic import() calls
+const IMPORT_PATTERNS = [
+    /(?:import|export)\s+(?:[^'"]*?\s+from\s+)?['"]([^'"]+)['"]/g,
+    /import\(\s*['"]([^'"]+)['"]\s*\)/g,
+];
+
+// Extract module specifiers from source code
+export function parseImports(code: string): string[] {
+    const specifiers = new Set<string>();
+    for (const pattern of IMPORT_PATTERNS) {
+        for (const match of code.matchAll(pattern)) {
+            specifiers.add(match[1]);
+        }
+    }
+    return [...specifiers];
+}
+
+// Collapse "." and ".." segments
+function normalizePath(path: string): string {
+    const parts: string[] = [];
+    for (const part of path.split('/')) {
+        if (part === '..') parts.pop();
+        else if (part && part !== '.') parts.push(part);
+    }
+    return parts.join('/');
+}
+
+// Resolve a relative or "@/" specifier to a path in the tree; bare package imports return null
+export function resolveImport(
+    specifier: string,
+    fromPath: string,
+    filePaths: Set<string>,
+    rootPrefix = ''
+): string | null {
+    let base: string;
+    if (specifier.startsWith('.')) {
+        const dir = fromPath.split('/').slice(0, -1).join('/');
+        base = normalizePath(`${dir}/${specifier}`);
+    } else if (specifier.startsWith('@/')) {
+        base = normalizePath(`${rootPrefix}src/${specifier.slice(2)}`);
+    } else {
+        return null;
+    }
+
+    const candidates = [
+        base,
+        ...SCRIPT_EXTENSIONS.map(ext => base + ext),
+        ...SCRIPT_EXTENSIONS.map(ext => `${base}/index${ext}`),
+    ];
+    return candidates.find(c => filePaths.has(c)) || null;
+}
+
+// Files the given file imports and files that import it, script files only
+export function getRelatedFiles(files: FileNode[], path: string, limit = 8): RelatedFile[] {
+    const allFiles = flattenFiles(files).filter(f =>
+        f.content !== undefined && SCRIPT_EXTENSIONS.some(ext => f.path.endsWith(ext))
+    );
+    const filePaths = new Set(allFiles.map(f => f.path));
+    const byPath = new Map(allFiles.map(f => [f.path, f]));
+    const rootPrefix = findRootPrefix(files) || '';
+
+    const target = byPath.get(path);
+    if (!target) return [];
+
+    const related: RelatedFile[] = [];
+    const seen = new Set([path]);
+
+    for (const specifier of parseImports(target.content || '')) {
+        const resolved = resolveImport(specifier, path, filePaths, rootPrefix);
+        if (resolved && !seen.has(resolved)) {
+            seen.add(resolved);
+            related.push({ node: byPath.get(resolved)!, relation: 'imports' });
+        }
+    }
+
+    for (const file of allFiles) {
+        if (seen.has(file.path)) continue;
+        const importsTarget = parseImports(file.content || '').some(specifier =>
+            resolveImport(specifier, file.path, filePaths, rootPrefix) === path
+        );
+        if (importsTarget) {
+            seen.add(file.path);
+            related.push({ node: file, relation: 'importedBy' });
+        }
+    }
+
+    return related.slice(0, limit);
+}
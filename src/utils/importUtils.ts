@@ -0,0 +1,194 @@
+import { ungzip } from 'pako';
+import type { FileNode } from './fileUtils';
+import type { ArchiveEntry } from './zipUtils';
+import { extractZip, buildFileTree, isIgnoredImportPath } from './zipUtils';
+
+export type ImportKind = 'zip' | 'tar' | 'folder' | 'component';
+
+// A project picked in ZipUpload; load() reads it into the same tree a ZIP produces
+export interface ProjectImport {
+    name: string;
+    kind: ImportKind;
+    load: () => Promise<FileNode[]>;
+}
+
+const TAR_PATTERN = /\.(tar|tar\.gz|tgz)$/i;
+// Lone files that can stand in for the template's entry component
+const COMPONENT_PATTERN = /\.(tsx|jsx|ts|js|vue|svelte)$/i;
+
+export const ACCEPTED_IMPORT_EXTENSIONS = ['.zip', '.tar', '.tar.gz', '.tgz', '.tsx', '.jsx', '.ts', '.js', '.vue', '.svelte'];
+
+// Project name without its archive extension, for download and workspace names
+export const projectBaseName = (name: string): string =>
+    name.replace(/\.(zip|tar|tar\.gz|tgz)$/i, '');
+
+// Decode a NUL-terminated header field
+function readField(block: Uint8Array, start: number, length: number): string {
+    const bytes = block.subarray(start, start + length);
+    const end = bytes.indexOf(0);
+    return new TextDecoder().decode(end === -1 ? bytes : bytes.subarray(0, end));
+}
+
+// "path" from a pax extended header: records of "<length> <key>=<value>\n"
+function readPaxPath(body: Uint8Array): string | null {
+    const match = new TextDecoder().decode(body).match(/^\d+ path=(.*)$/m);
+    return match ? match[1] : null;
+}
+
+// Entries of a ustar/GNU/pax tar archive; links and devices are skipped
+export function extractTarEntries(data: Uint8Array): ArchiveEntry[] {
+    const entries: ArchiveEntry[] = [];
+    let longName: string | null = null;
+    let paxPath: string | null = null;
+    let offset = 0;
+
+    while (offset + 512 <= data.length) {
+        const header = data.subarray(offset, offset + 512);
+        // Two zero blocks end the archive
+        if (header.every(b => b === 0)) break;
+
+        const name = readField(header, 0, 100);
+        const size = parseInt(readField(header, 124, 12).trim() || '0', 8);
+        const type = String.fromCharCode(header[156] || 48);
+        const prefix = readField(header, 257, 6).startsWith('ustar') ? readField(header, 345, 155) : '';
+        const body = data.subarray(offset + 512, offset + 512 + size);
+        offset += 512 + Math.ceil(size / 512) * 512;
+
+        if (type === 'L') {
+            longName = readField(body, 0, body.length);
+            continue;
+        }
+        if (type === 'x') {
+            paxPath = readPaxPath(body);
+            continue;
+        }
+        if (type === 'g') continue;
+
+        const path = (paxPath ?? longName ?? (prefix ? `${prefix}/${name}` : name)).replace(/^\.\//, '');
+        longName = null;
+        paxPath = null;
+
+        if (type === '5') {
+            entries.push({ path, bytes: null });
+        } else if (type === '0' || type === '7') {
+            entries.push({ path, bytes: body.slice() });
+        }
+    }
+
+    return entries;
+}
+
+export async function extractTar(file: Blob): Promise<FileNode[]> {
+    let data = new Uint8Array(await file.arrayBuffer());
+    // gzip magic bytes; .tgz and .tar.gz are both compressed, plain .tar is not
+    if (data[0] === 0x1f && data[1] === 0x8b) {
+        data = ungzip(data);
+    }
+    return buildFileTree(extractTarEntries(data));
+}
+
+// Turn a lone component into the template's entry file; main.tsx imports App as the default export
+export function wrapSingleComponent(fileName: string, content: string): FileNode[] {
+    const ext = fileName.split('.').pop()?.toLowerCase();
+    const root = fileName.replace(/\.[^.]+$/, '') || 'component';
+
+    let entryName = 'App.tsx';
+    let entryContent = content;
+    if (ext === 'vue' || ext === 'svelte') {
+        entryName = `App.${ext}`;
+    } else if (!/\bexport\s+default\b/.test(content)) {
+        // Default-export the first exported component, else the first component declared
+        const exported = content.match(/\bexport\s+(?:function|const|class)\s+([A-Z]\w*)/);
+        const declared = content.match(/\b(?:function|const|class)\s+([A-Z]\w*)/);
+        const component = exported?.[1] ?? declared?.[1];
+        if (component) entryContent = `${content.trimEnd()}\n\nexport default ${component};\n`;
+    }
+
+    // Nest under a root folder so the tree has the same shape as an extracted archive
+    return buildFileTree([{ path: `${root}/src/${entryName}`, bytes: new TextEncoder().encode(entryContent) }]);
+}
+
+// A file chosen or dropped on its own: an archive, or a single component
+export function importFromFile(file: File): ProjectImport | null {
+    if (/\.zip$/i.test(file.name)) {
+        return { name: file.name, kind: 'zip', load: () => extractZip(file) };
+    }
+    if (TAR_PATTERN.test(file.name)) {
+        return { name: file.name, kind: 'tar', load: () => extractTar(file) };
+    }
+    if (COMPONENT_PATTERN.test(file.name)) {
+        return { name: file.name, kind: 'component', load: async () => wrapSingleComponent(file.name, await file.text()) };
+    }
+    return null;
+}
+
+// Files from an <input webkitdirectory>, whose relative paths start with the folder name
+export function importFromFileList(files: File[]): ProjectImport | null {
+    const wanted = files.filter(f => f.webkitRelativePath && !isIgnoredImportPath(f.webkitRelativePath));
+    if (wanted.length === 0) return null;
+
+    return {
+        name: wanted[0].webkitRelativePath.split('/')[0],
+        kind: 'folder',
+        load: async () => buildFileTree(await Promise.all(wanted.map(async (file): Promise<ArchiveEntry> => ({
+            path: file.webkitRelativePath,
+            bytes: new Uint8Array(await file.arrayBuffer()),
+        })))),
+    };
+}
+
+const readDirectoryBatch = (reader: FileSystemDirectoryReader) =>
+    new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+
+const readEntryFile = (entry: FileSystemFileEntry) =>
+    new Promise<File>((resolve, reject) => entry.file(resolve, reject));
+
+// Walk a dropped directory; ignored folders such as node_modules are never read
+async function collectEntries(entry: FileSystemEntry, out: ArchiveEntry[]): Promise<void> {
+    const path = entry.fullPath.replace(/^\//, '');
+    if (isIgnoredImportPath(path)) return;
+
+    if (entry.isFile) {
+        const file = await readEntryFile(entry as FileSystemFileEntry);
+        out.push({ path, bytes: new Uint8Array(await file.arrayBuffer()) });
+        return;
+    }
+
+    if (entry.isDirectory) {
+        out.push({ path, bytes: null });
+        const reader = (entry as FileSystemDirectoryEntry).createReader();
+        // readEntries returns at most ~100 entries per call
+        let batch = await readDirectoryBatch(reader);
+        while (batch.length > 0) {
+            for (const child of batch) await collectEntries(child, out);
+            batch = await readDirectoryBatch(reader);
+        }
+    }
+}
+
+// A drop: one folder via File System Access entries, else the first supported file.
+// Entries must be taken before the drop handler returns, so this runs synchronously.
+export function importFromDataTransfer(dataTransfer: DataTransfer): ProjectImport | null {
+    const entries = Array.from(dataTransfer.items)
+        .map(item => item.webkitGetAsEntry?.())
+        .filter((entry): entry is FileSystemEntry => Boolean(entry));
+    const folder = entries.find(entry => entry.isDirectory);
+
+    if (folder) {
+        return {
+            name: folder.name,
+            kind: 'folder',
+            load: async () => {
+                const collected: ArchiveEntry[] = [];
+                await collectEntries(folder, collected);
+                return buildFileTree(collected);
+            },
+        };
+    }
+
+    for (const file of Array.from(dataTransfer.files)) {
+        const project = importFromFile(file);
+        if (project) return project;
+    }
+    return null;
+}
@@ -0,0 +1,53 @@
+import type { FileNode } from './fileUtils';
+import { flattenFiles, findRootPrefix, toContainerPath } from './zipUtils';
+import { parsePackageJson } from './dependencies';
+import type { ProjectType } from './projectTemplates';
+
+export interface DetectedProject {
+    type: ProjectType;
+    // Human-readable evidence for the choice, shown as a tooltip
+    reasons: string[];
+}
+
+// Inspect the uploaded tree and pick the template that can run it
+export function detectProject(files: FileNode[]): DetectedProject {
+    const prefix = findRootPrefix(files);
+    const paths = flattenFiles(files).map(f => toContainerPath(f.path, prefix));
+    const packageFile = flattenFiles(files).find(f => toContainerPath(f.path, prefix) === 'package.json');
+    const pkg = parsePackageJson(packageFile?.content);
+    const deps = { ...pkg?.devDependencies, ...pkg?.dependencies };
+    const devScript = pkg?.scripts?.dev || '';
+
+    const hasFile = (pattern: RegExp) => paths.some(p => pattern.test(p));
+    const reasons: string[] = [];
+
+    if ('next' in deps || hasFile(/^next\.config\.(js|mjs|ts)$/) || /\bnext\b/.test(devScript)) {
+        if ('next' in deps) reasons.push('package.json depends on next');
+        if (hasFile(/^next\.config\./)) reasons.push('next.config found');
+        if (/\bnext\b/.test(devScript)) reasons.push(`dev script runs "${devScript}"`);
+        return { type: 'nextjs', reasons };
+    }
+
+    if ('vue' in deps || '@vitejs/plugin-vue' in deps || hasFile(/\.vue$/)) {
+        reasons.push('vue' in deps ? 'package.json depends on vue' : '.vue files found');
+        return { type: 'vite-vue', reasons };
+    }
+
+    if ('svelte' in deps || '@sveltejs/vite-plugin-svelte' in deps || hasFile(/^svelte\.config\./) || hasFile(/\.svelte$/)) {
+        reasons.push('svelte' in deps ? 'package.json depends on svelte' : 'Svelte files found');
+        return { type: 'vite-svelte', reasons };
+    }
+
+    if ('react' in deps || hasFile(/\.(tsx|jsx)$/)) {
+        reasons.push('react' in deps ? 'package.json depends on react' : '.tsx/.jsx files found');
+        return { type: 'vite-react', reasons };
+    }
+
+    if (!pkg && hasFile(/\.html$/)) {
+        reasons.push('HTML files with no package.json');
+        return { type: 'static', reasons };
+    }
+
+    reasons.push('No framework markers found, using the default template');
+    return { type: 'vite-react', reasons };
+}
@@ -0,0 +1,273 @@
+import type { FileSystemTree } from '@webcontainer/api';
+import type { PackageJson } from './dependencies';
+
+export type ProjectType = 'vite-react' | 'vite-vue' | 'vite-svelte' | 'nextjs' | 'static';
+
+// Where the error reporter goes: the root index.html, every .html file, or the
+// container-wide preview script for frameworks that render HTML on the server
+export type ReporterInjection = 'index-html' | 'all-html' | 'preview-script';
+
+export interface ProjectTemplate {
+    type: ProjectType;
+    label: string;
+    // Dependencies the project needs on top of its own package.json
+    packageJson: PackageJson;
+    // Default files, mounted underneath the project's own files
+    files: FileSystemTree;
+    startCommand: { command: string; args: string[] };
+    reporter: ReporterInjection;
+}
+
+// Base package.json with 16 common dependencies, pre-installed on page load.
+// Every template runs on top of this node_modules.
+export const BASE_PACKAGE_JSON = {
+    name: 'preview-project',
+    private: true,
+    version: '0.0.0',
+    type: 'module',
+    scripts: {
+        dev: 'vite --host',
+        build: 'vite build',
+    },
+    dependencies: {
+        // Core React
+        'react': '^18.3.1',
+        'react-dom': '^18.3.1',
+        // Routing
+        'react-router-dom': '^7.1.1',
+        // Animation
+        'framer-motion': '^11.14.4',
+        // Icons
+        'lucide-react': '^0.460.0',
+        // Styling utilities
+        'clsx': '^2.1.1',
+        'tailwind-merge': '^2.5.5',
+        'class-variance-authority': '^0.7.1',
+        // HTTP
+        'axios': '^1.7.9',
+        // State management
+        'zustand': '^5.0.2',
+        // Date utilities
+        'date-fns': '^4.1.0',
+    },
+    devDependencies: {
+        // Vite & React plugin
+        '@vitejs/plugin-react': '^4.3.4',
+        'vite': '^6.0.3',
+        // TypeScript
+        'typescript': '^5.7.2',
+        '@types/react': '^18.3.12',
+        '@types/react-dom': '^18.3.1',
+        // Tailwind CSS
+        'tailwindcss': '^3.4.17',
+        'postcss': '^8.4.49',
+        'autoprefixer': '^10.4.20',
+    },
+};
+
+export const BASE_FILES: FileSystemTree = {
+    'package.json': {
+        file: { contents: JSON.stringify(BASE_PACKAGE_JSON, null, 2) },
+    },
+    'vite.config.ts': {
+        file: {
+            contents: `import { defineConfig } from 'vite'
+import react from '@vitejs/plugin-react'
+export default defineConfig({ plugins: [react()] })`,
+        },
+    },
+    'index.html': {
+        file: {
+            contents: `<!DOCTYPE html>
+<html lang="en">
+  <head>
+    <meta charset="UTF-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+    <title>Preview</title>
+  </head>
+  <body>
+    <div id="root"></div>
+    <script type="module" src="/src/main.tsx"></script>
+  </body>
+</html>`,
+        },
+    },
+    'tailwind.config.js': {
+        file: {
+            contents: `export default {
+  content: ["./index.html", "./src/**/*.{js,ts,jsx,tsx}"],
+  theme: { extend: {} },
+  plugins: [],
+}`,
+        },
+    },
+    'postcss.config.js': {
+        file: {
+            contents: `export default {
+  plugins: { tailwindcss: {}, autoprefixer: {} },
+}`,
+        },
+    },
+    'src': {
+        directory: {
+            'main.tsx': {
+                file: {
+                    contents: `import React from 'react'
+import ReactDOM from 'react-dom/client'
+import App from './App'
+import './index.css'
+ReactDOM.createRoot(document.getElementById('root')!).render(<React.StrictMode><App /></React.StrictMode>)`,
+                },
+            },
+            'App.tsx': {
+                file: { contents: `export default function App() { return <div className="p-4 text-white bg-zinc-900 min-h-screen">Loading...</div> }` },
+            },
+            'index.css': {
+                file: { contents: `@tailwind base;\n@tailwind components;\n@tailwind utilities;` },
+            },
+        },
+    },
+};
+
+const VUE_FILES: FileSystemTree = {
+    'vite.config.ts': {
+        file: {
+            contents: `import { defineConfig } from 'vite'
+import vue from '@vitejs/plugin-vue'
+export default defineConfig({ plugins: [vue()] })`,
+        },
+    },
+    'index.html': {
+        file: {
+            contents: `<!DOCTYPE html>
+<html lang="en">
+  <head>
+    <meta charset="UTF-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+    <title>Preview</title>
+  </head>
+  <body>
+    <div id="app"></div>
+    <script type="module" src="/src/main.ts"></script>
+  </body>
+</html>`,
+        },
+    },
+    'src': {
+        directory: {
+            'main.ts': {
+                file: {
+                    contents: `import { createApp } from 'vue'
+import App from './App.vue'
+createApp(App).mount('#app')`,
+                },
+            },
+            'App.vue': {
+                file: { contents: `<template><div class="p-4">Loading...</div></template>` },
+            },
+        },
+    },
+};
+
+const SVELTE_FILES: FileSystemTree = {
+    'vite.config.ts': {
+        file: {
+            contents: `import { defineConfig } from 'vite'
+import { svelte } from '@sveltejs/vite-plugin-svelte'
+export default defineConfig({ plugins: [svelte()] })`,
+        },
+    },
+    'index.html': {
+        file: {
+            contents: `<!DOCTYPE html>
+<html lang="en">
+  <head>
+    <meta charset="UTF-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+    <title>Preview</title>
+  </head>
+  <body>
+    <div id="app"></div>
+    <script type="module" src="/src/main.ts"></script>
+  </body>
+</html>`,
+        },
+    },
+    'src': {
+        directory: {
+            'main.ts': {
+                file: {
+                    contents: `import { mount } from 'svelte'
+import App from './App.svelte'
+mount(App, { target: document.getElementById('app')! })`,
+                },
+            },
+            'App.svelte': {
+                file: { contents: `<div class="p-4">Loading...</div>` },
+            },
+        },
+    },
+};
+
+// BASE_FILES minus package.json, which is always generated from the dependency plan
+const VITE_REACT_FILES: FileSystemTree = Object.fromEntries(
+    Object.entries(BASE_FILES).filter(([name]) => name !== 'package.json')
+);
+
+export const TEMPLATES: Record<ProjectType, ProjectTemplate> = {
+    'vite-react': {
+        type: 'vite-react',
+        label: 'Vite + React',
+        packageJson: BASE_PACKAGE_JSON,
+        files: VITE_REACT_FILES,
+        startCommand: { command: 'npm', args: ['run', 'dev'] },
+        reporter: 'index-html',
+    },
+    'vite-vue': {
+        type: 'vite-vue',
+        label: 'Vite + Vue',
+        packageJson: {
+            scripts: { dev: 'vite --host' },
+            dependencies: { 'vue': '^3.5.13' },
+            devDependencies: { '@vitejs/plugin-vue': '^5.2.1' },
+        },
+        files: VUE_FILES,
+        startCommand: { command: 'npm', args: ['run', 'dev'] },
+        reporter: 'index-html',
+    },
+    'vite-svelte': {
+        type: 'vite-svelte',
+        label: 'Vite + Svelte',
+        packageJson: {
+            scripts: { dev: 'vite --host' },
+            dependencies: { 'svelte': '^5.16.0' },
+            devDependencies: { '@sveltejs/vite-plugin-svelte': '^5.0.3' },
+        },
+        files: SVELTE_FILES,
+        startCommand: { command: 'npm', args: ['run', 'dev'] },
+        reporter: 'index-html',
+    },
+    'nextjs': {
+        type: 'nextjs',
+        label: 'Next.js',
+        packageJson: {
+            scripts: { dev: 'next dev' },
+            // Next 14 supports the base's React 18
+            dependencies: { 'next': '^14.2.20' },
+        },
+        // No defaults: a second next.config.* would shadow the project's own
+        files: {},
+        // Called directly so project flags such as --turbopack (unsupported here) are ignored
+        startCommand: { command: 'npx', args: ['next', 'dev'] },
+        reporter: 'preview-script',
+    },
+    'static': {
+        type: 'static',
+        label: 'Static HTML',
+        packageJson: {},
+        files: {},
+        // The base already ships Vite, which serves plain HTML as-is
+        startCommand: { command: 'npx', args: ['vite', '--host'] },
+        reporter: 'all-html',
+    },
+};
@@ -0,0 +1,153 @@
+import type { FileNode } from './fileUtils';
+import { flattenFiles } from './zipUtils';
+
+// A react-router route found by scanning the project source
+export interface DiscoveredRoute {
+    path: string;
+    file: string;
+    line: number;
+    // Contains :params or a splat, so it needs values filled in before it can be opened
+    dynamic: boolean;
+}
+
+const SCRIPT_PATTERN = /\.(tsx|jsx|ts|js)$/;
+// Files that may define routes as objects instead of <Route> elements
+const ROUTE_OBJECT_HINT = /\b(createBrowserRouter|createHashRouter|createMemoryRouter|useRoutes|RouteObject)\b/;
+
+const JSX_ROUTE_TAG = /<(\/?)Route\b/g;
+const JSX_PATH_ATTRIBUTE = /\bpath\s*=\s*(?:"([^"]*)"|'([^']*)'|\{\s*["'`]([^"'`$]*)["'`]\s*\})/;
+const PATH_PROPERTY = /path\s*:\s*(["'`])([^"'`\n$]*)\1/y;
+
+const normalizeRoutePath = (path: string): string =>
+    '/' + path.split('/').filter(Boolean).join('/');
+
+// Child paths are relative to their parent route unless they start with "/"
+const joinRoutePath = (parent: string, path: string): string =>
+    normalizeRoutePath(path.startsWith('/') ? path : `${parent}/${path}`);
+
+const lineAt = (code: string, index: number): number =>
+    code.slice(0, index).split('\n').length;
+
+// Read a JSX tag up to its closing ">", skipping over {...} expressions such as element={<Page />}.
+// Expressions are blanked out except plain string literals, so only the tag's own attributes remain.
+function readJsxTag(code: string, start: number): { end: number; attributes: string; selfClosing: boolean } | null {
+    let depth = 0;
+    let attributes = '';
+    let expression = '';
+
+    for (let i = start; i < code.length; i++) {
+        const char = code[i];
+        if (char === '{') {
+            depth++;
+            if (depth === 1) {
+                expression = '';
+                continue;
+            }
+        } else if (char === '}') {
+            depth--;
+            if (depth === 0) {
+                attributes += /^\s*(["'`])[^"'`]*\1\s*$/.test(expression) ? `{${expression}}` : '{}';
+                continue;
+            }
+        }
+
+        if (depth > 0) {
+            expression += char;
+        } else if (char === '>') {
+            return { end: i, attributes, selfClosing: code[i - 1] === '/' };
+        } else {
+            attributes += char;
+        }
+    }
+    return null;
+}
+
+// <Route path="..."> elements, with nested routes joined onto their parent's path
+function scanJsxRoutes(code: string): { path: string; index: number }[] {
+    const found: { path: string; index: number }[] = [];
+    const parents = ['/'];
+
+    for (const match of code.matchAll(JSX_ROUTE_TAG)) {
+        if (match[1]) {
+            if (parents.length > 1) parents.pop();
+            continue;
+        }
+        const tag = readJsxTag(code, match.index);
+        if (!tag) break;
+
+        const attribute = tag.attributes.match(JSX_PATH_ATTRIBUTE);
+        const parent = parents[parents.length - 1];
+        const path = attribute ? joinRoutePath(parent, attribute[1] ?? attribute[2] ?? attribute[3]) : parent;
+        if (attribute) found.push({ path, index: match.index });
+        // Pathless layout routes pass their parent's path on to their children
+        if (!tag.selfClosing) parents.push(path);
+    }
+    return found;
+}
+
+// { path: '...', children: [...] } route objects, as passed to createBrowserRouter or useRoutes
+function scanRouteObjects(code: string): { path: string; index: number }[] {
+    const found: { path: string; index: number }[] = [];
+    const frames: { bracket: '{' | '['; path: string | null }[] = [];
+
+    for (let i = 0; i < code.length; i++) {
+        const char = code[i];
+
+        // Skip comments and strings so brackets inside them don't count
+        if (char === '/' && code[i + 1] === '/') {
+            const end = code.indexOf('\n', i);
+            i = end === -1 ? code.length : end;
+            continue;
+        }
+        if (char === '/' && code[i + 1] === '*') {
+            const end = code.indexOf('*/', i + 2);
+            i = end === -1 ? code.length : end + 1;
+            continue;
+        }
+        if (char === '"' || char === "'" || char === '`') {
+            let end = i + 1;
+            while (end < code.length && code[end] !== char) end += code[end] === '\\' ? 2 : 1;
+            i = end;
+            continue;
+        }
+
+        if (char === '{' || char === '[') {
+            frames.push({ bracket: char, path: null });
+        } else if (char === '}' || char === ']') {
+            frames.pop();
+        } else if (char === 'p' && !/[\w$]/.test(code[i - 1] ?? '')) {
+            PATH_PROPERTY.lastIndex = i;
+            const match = PATH_PROPERTY.exec(code);
+            const frame = frames[frames.length - 1];
+            if (match && frame?.bracket === '{') {
+                const parent = frames.slice(0, -1).reverse().find(f => f.bracket === '{' && f.path !== null)?.path ?? '/';
+                frame.path = joinRoutePath(parent, match[2]);
+                found.push({ path: frame.path, index: i });
+                i += match[0].length - 1;
+            }
+        }
+    }
+    return found;
+}
+
+// Routes defined anywhere in the project. Routes inside a descendant <Routes> rendered
+// under a splat route are listed relative to "/", since that nesting isn't visible statically.
+export function findRoutes(files: FileNode[]): DiscoveredRoute[] {
+    const routes = new Map<string, DiscoveredRoute>();
+
+    for (const file of flattenFiles(files)) {
+        if (!file.content || !SCRIPT_PATTERN.test(file.path) || file.path.includes('node_modules/')) continue;
+        const code = file.content;
+
+        const found = [
+            ...(code.includes('<Route') ? scanJsxRoutes(code) : []),
+            ...(ROUTE_OBJECT_HINT.test(code) ? scanRouteObjects(code) : []),
+        ];
+        for (const { path, index } of found) {
+            if (routes.has(path)) continue;
+            routes.set(path, { path, file: file.path, line: lineAt(code, index), dynamic: /[:*]/.test(path) });
+        }
+    }
+
+    return [...routes.values()].sort((a, b) => a.path.localeCompare(b.path));
+}
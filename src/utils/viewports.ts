@@ -0,0 +1,66 @@
+export type ViewportPresetId = 'responsive' | 'mobile' | 'tablet' | 'desktop' | 'custom';
+
+export interface ViewportSize {
+    width: number;
+    height: number;
+}
+
+export interface ViewportPreset {
+    id: ViewportPresetId;
+    label: string;
+    // null: the frame fills the preview pane
+    size: ViewportSize | null;
+}
+
+export const VIEWPORT_PRESETS: ViewportPreset[] = [
+    { id: 'responsive', label: 'Fill', size: null },
+    { id: 'mobile', label: 'Mobile', size: { width: 390, height: 844 } },
+    { id: 'tablet', label: 'Tablet', size: { width: 768, height: 1024 } },
+    { id: 'desktop', label: 'Desktop', size: { width: 1440, height: 900 } },
+    { id: 'custom', label: 'Custom', size: null },
+];
+
+// Shown side by side in multi-viewport mode
+export const MULTI_VIEWPORT_PRESETS: ViewportPresetId[] = ['mobile', 'tablet', 'desktop'];
+
+export const MIN_VIEWPORT_SIZE = 200;
+export const MAX_VIEWPORT_SIZE = 3840;
+
+export interface DeviceSettings {
+    preset: ViewportPresetId;
+    custom: ViewportSize;
+    // Landscape: width and height swapped
+    rotated: boolean;
+    // Scale frames down to fit the pane instead of scrolling
+    fit: boolean;
+    multi: boolean;
+}
+
+export const DEFAULT_DEVICE_SETTINGS: DeviceSettings = {
+    preset: 'responsive',
+    custom: { width: 1024, height: 768 },
+    rotated: false,
+    fit: true,
+    multi: false,
+};
+
+export const clampViewportSize = (value: number): number =>
+    Math.min(MAX_VIEWPORT_SIZE, Math.max(MIN_VIEWPORT_SIZE, Math.round(value) || MIN_VIEWPORT_SIZE));
+
+// Size of a preset under the current settings; null when the frame fills the pane
+export function viewportSize(presetId: ViewportPresetId, settings: DeviceSettings): ViewportSize | null {
+    const size = presetId === 'custom'
+        ? settings.custom
+        : VIEWPORT_PRESETS.find(p => p.id === presetId)?.size ?? null;
+    if (!size) return null;
+    return settings.rotated ? { width: size.height, height: size.width } : size;
+}
+
+// Largest scale (never above 1) at which frames laid out in a row fit the available area
+export function fitScale(sizes: ViewportSize[], available: ViewportSize, gap = 0): number {
+    if (sizes.length === 0 || available.width <= 0 || available.height <= 0) return 1;
+    const totalWidth = sizes.reduce((sum, s) => sum + s.width, 0);
+    const maxHeight = Math.max(...sizes.map(s => s.height));
+    const widthLeft = available.width - gap * (sizes.length - 1);
+    return Math.min(1, widthLeft / totalWidth, available.height / maxHeight);
+}
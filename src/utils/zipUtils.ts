@@ -1,104 +1,91 @@
 import JSZip from 'jszip';
 import type { FileNode } from './fileUtils';
+import { isBinaryPath, isBinaryContent } from './fileUtils';
 import type { FileSystemTree } from '@webcontainer/api';
 
-// Extract ZIP file and return file tree structure
-export async function extractZip(file: File): Promise<FileNode[]> {
-    const zip = await JSZip.loadAsync(file);
-    const fileTree: FileNode[] = [];
-    const pathMap = new Map<string, FileNode>();
-
-    // Get all file paths and sort them
-    const paths = Object.keys(zip.files).sort();
+// One file or directory read from an archive or folder; bytes is null for directories
+export interface ArchiveEntry {
+    path: string;
+    bytes: Uint8Array | null;
+}
 
-    for (const path of paths) {
-        const zipEntry = zip.files[path];
+// macOS metadata, dotfiles below the root, and installed dependencies the container reinstalls anyway
+export const isIgnoredImportPath = (path: string): boolean =>
+    path.startsWith('__MACOSX') || path.includes('/.') || /(^|\/)node_modules(\/|$)/.test(path);
 
-        // Skip __MACOSX and other hidden files
-        if (path.startsWith('__MACOSX') || path.includes('/.')) {
-            continue;
-        }
+// Build the FileNode tree from flat entries, creating missing parent directories
+export function buildFileTree(entries: ArchiveEntry[]): FileNode[] {
+    const fileTree: FileNode[] = [];
+    const pathMap = new Map<string, FileNode>();
 
+    const childrenOf = (dirPath: string): FileNode[] => {
+        if (!dirPath) return fileTree;
+        const existing = pathMap.get(dirPath);
+        if (existing) return existing.children!;
+
+        const slash = dirPath.lastIndexOf('/');
+        const dirNode: FileNode = {
+            name: dirPath.slice(slash + 1),
+            path: dirPath,
+            type: 'directory',
+            children: [],
+        };
+        pathMap.set(dirPath, dirNode);
+        childrenOf(slash === -1 ? '' : dirPath.slice(0, slash)).push(dirNode);
+        return dirNode.children!;
+    };
+
+    const sorted = entries
+        .filter(entry => !isIgnoredImportPath(entry.path))
+        .sort((a, b) => (a.path < b.path ? -1 : a.path > b.path ? 1 : 0));
+
+    for (const { path, bytes } of sorted) {
         // Remove trailing slash for directories
         const cleanPath = path.endsWith('/') ? path.slice(0, -1) : path;
         if (!cleanPath) continue;
 
-        const parts = cleanPath.split('/');
-        const name = parts[parts.length - 1];
-        const parentPath = parts.slice(0, -1).join('/');
-
-        if (zipEntry.dir) {
-            const dirNode: FileNode = {
-                name,
-                path: cleanPath,
-                type: 'directory',
-                children: [],
-            };
-            pathMap.set(cleanPath, dirNode);
-
-            if (parentPath && pathMap.has(parentPath)) {
-                pathMap.get(parentPath)!.children!.push(dirNode);
-            } else if (!parentPath) {
-                fileTree.push(dirNode);
-            }
-        } else {
-            const content = await zipEntry.async('string');
-            const fileNode: FileNode = {
-                name,
-                path: cleanPath,
-                type: 'file',
-                content,
-            };
-
-            if (parentPath && pathMap.has(parentPath)) {
-                pathMap.get(parentPath)!.children!.push(fileNode);
-            } else if (!parentPath) {
-                fileTree.push(fileNode);
-            } else {
-                // Create missing parent directories
-                let currentPath = '';
-                for (let i = 0; i < parts.length - 1; i++) {
-                    const part = parts[i];
-                    const newPath = currentPath ? `${currentPath}/${part}` : part;
-
-                    if (!pathMap.has(newPath)) {
-                        const dirNode: FileNode = {
-                            name: part,
-                            path: newPath,
-                            type: 'directory',
-                            children: [],
-                        };
-                        pathMap.set(newPath, dirNode);
-
-                        if (currentPath && pathMap.has(currentPath)) {
-                            pathMap.get(currentPath)!.children!.push(dirNode);
-                        } else if (!currentPath) {
-                            fileTree.push(dirNode);
-                        }
-                    }
-                    currentPath = newPath;
-                }
-
-                if (pathMap.has(parentPath)) {
-                    pathMap.get(parentPath)!.children!.push(fileNode);
-                }
-            }
+        if (bytes === null) {
+            childrenOf(cleanPath);
+            continue;
         }
+
+        const slash = cleanPath.lastIndexOf('/');
+        // Keep raw bytes so images and fonts survive; only text is decoded
+        const isBinary = isBinaryPath(cleanPath) || isBinaryContent(bytes);
+        childrenOf(slash === -1 ? '' : cleanPath.slice(0, slash)).push({
+            name: cleanPath.slice(slash + 1),
+            path: cleanPath,
+            type: 'file',
+            ...(isBinary
+                ? { binary: bytes }
+                : { content: new TextDecoder().decode(bytes) }),
+        });
     }
 
     return fileTree;
 }
 
+// Extract ZIP file and return file tree structure
+export async function extractZip(file: Blob): Promise<FileNode[]> {
+    const zip = await JSZip.loadAsync(file);
+    const entries = await Promise.all(
+        Object.values(zip.files)
+            .filter(entry => !isIgnoredImportPath(entry.name))
+            .map(async (entry): Promise<ArchiveEntry> => ({
+                path: entry.name,
+                bytes: entry.dir ? null : await entry.async('uint8array'),
+            }))
+    );
+    return buildFileTree(entries);
+}
+
 // Convert FileNode tree to WebContainer FileSystemTree format
 export function toWebContainerFS(files: FileNode[], stripPrefix?: string): FileSystemTree {
     const fsTree: FileSystemTree = {};
 
     function processNode(node: FileNode): void {
         // Strip prefix from path if provided (e.g., "project-name/")
-        let path = node.path;
-        if (stripPrefix && path.startsWith(stripPrefix)) {
-            path = path.slice(stripPrefix.length);
-        }
+        const path = toContainerPath(node.path, stripPrefix);
         if (!path) return;
 
         const parts = path.split('/');
@@ -123,7 +110,7 @@ export function toWebContainerFS(files: FileNode[], stripPrefix?: string): FileS
         } else {
             current[name] = {
                 file: {
-                    contents: node.content || '',
+                    contents: node.binary ?? node.content ?? '',
                 },
             };
         }
@@ -142,6 +129,20 @@ export function toWebContainerFS(files: FileNode[], stripPrefix?: string): FileS
     return fsTree;
 }
 
+// Overlay one FileSystemTree on another; overlay entries win, directories merge
+export function mergeFileSystemTrees(base: FileSystemTree, overlay: FileSystemTree): FileSystemTree {
+    const merged: FileSystemTree = { ...base };
+    for (const [name, entry] of Object.entries(overlay)) {
+        const existing = merged[name];
+        if (existing && 'directory' in existing && 'directory' in entry) {
+            merged[name] = { directory: mergeFileSystemTrees(existing.directory, entry.directory) };
+        } else {
+            merged[name] = entry;
+        }
+    }
+    return merged;
+}
+
 // Find the root prefix if files are nested (e.g., "project-name/src/...")
 export function findRootPrefix(files: FileNode[]): string | undefined {
     if (files.length === 1 && files[0].type === 'directory') {
@@ -168,3 +169,80 @@ export function flattenFiles(files: FileNode[]): FileNode[] {
     traverse(files);
     return result;
 }
+
+// Map a tree path to its path inside the container (root prefix stripped)
+export function toContainerPath(path: string, stripPrefix?: string): string {
+    if (stripPrefix && path.startsWith(stripPrefix)) {
+        return path.slice(stripPrefix.length);
+    }
+    return path;
+}
+
+// A single change applied by the auto-fixer, used for the exported changelog
+export interface FixChangelogEntry {
+    path: string;
+    error: string;
+    timestamp: number;
+    linesBefore: number;
+    linesAfter: number;
+}
+
+// Render the auto-fixer's changes as a markdown changelog
+export function buildFixesMarkdown(entries: FixChangelogEntry[], projectName: string): string {
+    const lines = [
+        `# Fixes applied to ${projectName}`,
+        '',
+        `${entries.length} automatic fix${entries.length === 1 ? '' : 'es'} applied by Preview Testing.`,
+        '',
+    ];
+
+    entries.forEach((entry, i) => {
+        const error = entry.error.trim().slice(0, 1000);
+        // A fence longer than any backtick run in the error, so it can't close early
+        const longestRun = Math.max(0, ...(error.match(/`+/g) ?? []).map(run => run.length));
+        const fence = '`'.repeat(Math.max(3, longestRun + 1));
+        lines.push(
+            `## ${i + 1}. \`${entry.path}\``,
+            '',
+            `- Time: ${new Date(entry.timestamp).toISOString()}`,
+            `- Lines: ${entry.linesBefore} → ${entry.linesAfter}`,
+            '',
+            'Error:',
+            '',
+            fence,
+            error,
+            fence,
+            '',
+        );
+    });
+
+    return lines.join('\n');
+}
+
+// Rebuild a ZIP from the file tree. Paths already carry the original root prefix.
+export async function createZip(
+    files: FileNode[],
+    options: { fixes?: FixChangelogEntry[]; projectName?: string } = {}
+): Promise<Blob> {
+    const zip = new JSZip();
+
+    function traverse(nodes: FileNode[]): void {
+        for (const node of nodes) {
+            if (node.type === 'directory') {
+                zip.folder(node.path);
+                if (node.children) traverse(node.children);
+            } else {
+                zip.file(node.path, node.binary ?? node.content ?? '');
+            }
+        }
+    }
+
+    traverse(files);
+
+    if (options.fixes && options.fixes.length > 0) {
+        const prefix = findRootPrefix(files) || '';
+        zip.file(`${prefix}FIXES.md`, buildFixesMarkdown(options.fixes, options.projectName || 'project'));
+    }
+
+    return zip.generateAsync({ type: 'blob', compression: 'DEFLATE' });
+}